@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { getCachedModelMetadata, refreshModelMetadata } from "@/lib/model-metadata";
+
+// GET: Cached metadata for every model
+export async function GET() {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    return NextResponse.json({ metadata: await getCachedModelMetadata() });
+  } catch (error) {
+    console.error("Error reading model metadata:", error);
+    return NextResponse.json({ error: "Failed to read model metadata" }, { status: 500 });
+  }
+}
+
+// POST: Refetch metadata for ?model=... (repeatable), or every rated model
+export async function POST(request: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const { searchParams } = new URL(request.url);
+    const requested = searchParams.getAll("model");
+    const models =
+      requested.length > 0
+        ? requested
+        : (await getLeaderboardRatings()).map((r) => r.model_name);
+
+    const metadata = await refreshModelMetadata(models);
+    return NextResponse.json({ success: true, refreshed: Object.keys(metadata).length, metadata });
+  } catch (error) {
+    console.error("Error refreshing model metadata:", error);
+    return NextResponse.json({ error: "Failed to refresh model metadata" }, { status: 500 });
+  }
+}
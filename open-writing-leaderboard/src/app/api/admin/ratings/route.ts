@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { prisma } from "@/lib/db";
+import { normalizeRatings, type NormAnchor, type NormalizedRating } from "@/lib/elo-solver";
+import { loadPairwiseComparisons, solveOnPublishedScale } from "@/lib/leaderboard";
+
+const MAX_BOOTSTRAP_SAMPLES = 1000;
+
+interface RatingDiff {
+  model_name: string;
+  storedElo: number | null;
+  computedElo: number | null;
+  eloDiff: number | null;
+  storedRank: number | null;
+  computedRank: number | null;
+}
+
+/**
+ * Re-solve ratings from every comparison and normalise them against the
+ * published scale: the models with the highest and lowest stored elo_norm keep
+ * their published normalised scores.
+ */
+async function computeRatings(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const bootstrapParam = parseInt(searchParams.get("bootstrap") || "", 10);
+  const bootstrapSamples = isNaN(bootstrapParam)
+    ? undefined
+    : Math.min(Math.max(bootstrapParam, 0), MAX_BOOTSTRAP_SAMPLES);
+
+  const stored = await prisma.elo_ratings.findMany({
+    orderBy: { elo: "desc" },
+  });
+
+  const comparisons = await loadPairwiseComparisons();
+  const solved = solveOnPublishedScale(comparisons, stored, { bootstrapSamples });
+
+  const withNorm = stored
+    .filter((r) => r.elo_norm !== null)
+    .sort((a, b) => b.elo_norm! - a.elo_norm!);
+  const anchors: NormAnchor[] =
+    withNorm.length >= 2
+      ? [withNorm[0], withNorm[withNorm.length - 1]].map((r) => ({
+          model_name: r.model_name,
+          value: r.elo_norm!,
+        }))
+      : [];
+
+  return { stored, computed: normalizeRatings(solved, anchors), comparisonCount: comparisons.length };
+}
+
+// GET: Verify the published elo_ratings against an in-app solve
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    const { stored, computed, comparisonCount } = await computeRatings(request);
+
+    const computedByModel = new Map<string, { rating: NormalizedRating; rank: number }>(
+      computed.map((r, idx) => [r.model_name, { rating: r, rank: idx + 1 }])
+    );
+    const storedModels = new Set(stored.map((r) => r.model_name));
+
+    const diffs: RatingDiff[] = stored.map((r, idx) => {
+      const match = computedByModel.get(r.model_name);
+      return {
+        model_name: r.model_name,
+        storedElo: r.elo,
+        computedElo: match?.rating.elo ?? null,
+        eloDiff: match && r.elo !== null ? match.rating.elo - r.elo : null,
+        storedRank: idx + 1,
+        computedRank: match?.rank ?? null,
+      };
+    });
+
+    for (const r of computed) {
+      if (!storedModels.has(r.model_name)) {
+        diffs.push({
+          model_name: r.model_name,
+          storedElo: null,
+          computedElo: r.elo,
+          eloDiff: null,
+          storedRank: null,
+          computedRank: computedByModel.get(r.model_name)!.rank,
+        });
+      }
+    }
+
+    const absDiffs = diffs
+      .map((d) => d.eloDiff)
+      .filter((d): d is number => d !== null)
+      .map(Math.abs);
+
+    return NextResponse.json({
+      summary: {
+        comparisons: comparisonCount,
+        storedModels: stored.length,
+        computedModels: computed.length,
+        maxAbsEloDiff: absDiffs.length > 0 ? Math.max(...absDiffs) : null,
+        meanAbsEloDiff:
+          absDiffs.length > 0 ? absDiffs.reduce((a, b) => a + b, 0) / absDiffs.length : null,
+        rankMismatches: diffs.filter((d) => d.storedRank !== d.computedRank).length,
+      },
+      diffs,
+      computed,
+    });
+  } catch (error) {
+    console.error("Rating verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify ratings" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Regenerate elo_ratings from the in-app solve
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    const { computed, comparisonCount } = await computeRatings(request);
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      for (const r of computed) {
+        const values = {
+          elo: r.elo,
+          elo_norm: r.elo_norm,
+          sigma: r.sigma,
+          ci_low: r.ci_low,
+          ci_high: r.ci_high,
+          ci_low_norm: r.ci_low_norm,
+          ci_high_norm: r.ci_high_norm,
+          last_updated: now,
+        };
+        await tx.elo_ratings.upsert({
+          where: { model_name: r.model_name },
+          update: values,
+          create: { model_name: r.model_name, ...values },
+        });
+      }
+
+      await tx.event_log.create({
+        data: {
+          event_type: "elo_ratings_regenerated",
+          user_id: admin.user.id,
+          details: {
+            models: computed.length,
+            comparisons: comparisonCount,
+          },
+        },
+      });
+    }, { timeout: 30000 });
+
+    return NextResponse.json({
+      success: true,
+      message: `Regenerated ratings for ${computed.length} model(s) from ${comparisonCount} comparison(s)`,
+    });
+  } catch (error) {
+    console.error("Rating regeneration error:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate ratings" },
+      { status: 500 }
+    );
+  }
+}
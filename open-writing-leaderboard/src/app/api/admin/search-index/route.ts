@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { ensureSearchIndex, SearchUnavailableError } from "@/lib/search";
+
+// POST: Create the search function and full-text index over task responses if
+// they're missing, rebuilding an index left invalid by a failed build. Search
+// is unavailable until this has run
+export async function POST() {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    await ensureSearchIndex();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SearchUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating search index:", error);
+    return NextResponse.json({ error: "Failed to create search index" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { archiveSeason, listSeasons, SeasonError } from "@/lib/seasons";
+
+// GET: Archived seasons, newest first
+export async function GET() {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    return NextResponse.json({ seasons: await listSeasons() });
+  } catch (error) {
+    console.error("Error listing seasons:", error);
+    return NextResponse.json({ error: "Failed to list seasons" }, { status: 500 });
+  }
+}
+
+// POST: Archive the current ratings, comparisons and runs as { name }
+export async function POST(request: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.name !== "string") {
+      return NextResponse.json({ error: "Season name is required" }, { status: 400 });
+    }
+
+    const season = await archiveSeason(body.name);
+    return NextResponse.json({ success: true, season });
+  } catch (error) {
+    if (error instanceof SeasonError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error archiving season:", error);
+    return NextResponse.json({ error: "Failed to archive season" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { ensureLatestSnapshot, writeSnapshot } from "@/lib/leaderboard-snapshots";
+
+/**
+ * Cron callers authenticate with `Authorization: Bearer $CRON_SECRET`;
+ * everyone else needs an admin session.
+ */
+async function authorize(request: NextRequest): Promise<NextResponse | null> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && request.headers.get("authorization") === `Bearer ${cronSecret}`) {
+    return null;
+  }
+
+  const { error } = await requireAdmin();
+  return error ?? null;
+}
+
+// POST: Snapshot the leaderboard if elo_ratings changed (?force=1 to always write).
+// Writes are POST only, so schedulers must be set up to POST
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const force = searchParams.get("force") === "1";
+
+    const snapshot = force ? await writeSnapshot() : await ensureLatestSnapshot();
+
+    if (!snapshot) {
+      return NextResponse.json({
+        success: true,
+        written: false,
+        message: "Leaderboard unchanged since the latest snapshot",
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      written: true,
+      snapshotId: snapshot.id,
+      snapshotAt: snapshot.snapshotAt.toISOString(),
+      models: snapshot.data.ratings.length,
+    });
+  } catch (error) {
+    console.error("Snapshot error:", error);
+    return NextResponse.json(
+      { error: "Failed to write leaderboard snapshot" },
+      { status: 500 }
+    );
+  }
+}
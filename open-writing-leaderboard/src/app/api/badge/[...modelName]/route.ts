@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { computeRankRanges } from "@/lib/rank-ranges";
+import { modelNameFromSegments } from "@/lib/model-links";
+import { isBadgeStyle, renderBadge } from "@/lib/badge";
+
+const DEFAULT_LABEL = "Open Writing";
+
+function rankColor(rank: number): string {
+  if (rank <= 3) return "#4c1";
+  if (rank <= 10) return "#97ca00";
+  if (rank <= 25) return "#a4a61d";
+  return "#007ec6";
+}
+
+function svgResponse(svg: string, maxAge: number) {
+  return new Response(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      // Badges are fetched through image proxies (e.g. GitHub's camo), so let CDNs cache them
+      "Cache-Control": `public, max-age=${maxAge}, s-maxage=${maxAge}, stale-while-revalidate=86400`,
+    },
+  });
+}
+
+// GET: SVG badge with a model's current rank and Elo.
+// Options: ?style=flat|flat-square|for-the-badge, ?label=, ?color= (hex without #)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ modelName: string[] }> }
+) {
+  const { modelName: segments } = await params;
+  const modelName = modelNameFromSegments(segments);
+
+  const { searchParams } = new URL(request.url);
+  const styleParam = searchParams.get("style");
+  const style = isBadgeStyle(styleParam) ? styleParam : "flat";
+  const label = (searchParams.get("label") ?? DEFAULT_LABEL).slice(0, 40);
+  const colorParam = searchParams.get("color");
+  const colorOverride = colorParam && /^[0-9a-fA-F]{3,8}$/.test(colorParam) ? `#${colorParam}` : null;
+
+  try {
+    const ratings = await getLeaderboardRatings();
+    const position = ratings.findIndex((r) => r.model_name === modelName);
+    const rating = ratings[position];
+
+    if (position === -1 || rating.elo === null) {
+      return svgResponse(
+        renderBadge({ label, message: "not ranked", color: colorOverride ?? "#9f9f9f", style }),
+        300
+      );
+    }
+
+    const { best, tied } = computeRankRanges(ratings)[position];
+    const message = `#${tied ? "=" : ""}${best} · ${rating.elo.toFixed(0)} Elo`;
+
+    return svgResponse(
+      renderBadge({ label, message, color: colorOverride ?? rankColor(best), style }),
+      3600
+    );
+  } catch (error) {
+    console.error("Badge error:", error);
+    return svgResponse(
+      renderBadge({ label, message: "unavailable", color: "#9f9f9f", style }),
+      60
+    );
+  }
+}
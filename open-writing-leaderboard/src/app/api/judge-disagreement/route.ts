@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CONTROVERSIAL_SAMPLES_LIMIT, getJudgeDisagreement } from "@/lib/judge-disagreement";
+
+// GET: Samples with the most disagreement between judges (?model= for one
+// model, ?limit= up to 100) and mean variance per rubric dimension
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const model = searchParams.get("model") || null;
+  const limit = parseInt(searchParams.get("limit") ?? "", 10) || CONTROVERSIAL_SAMPLES_LIMIT;
+
+  try {
+    const disagreement = await getJudgeDisagreement(model, limit);
+    return NextResponse.json(disagreement);
+  } catch (error) {
+    console.error("Error computing judge disagreement:", error);
+    return NextResponse.json(
+      { error: "Failed to compute judge disagreement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getJudgeLeaderboards } from "@/lib/judge-ratings";
+
+// GET: Ratings re-solved per judge model, with rank correlations between judges
+export async function GET() {
+  try {
+    const { judges, correlations } = await getJudgeLeaderboards();
+    return NextResponse.json({ judges, correlations });
+  } catch (error) {
+    console.error("Error computing judge ratings:", error);
+    return NextResponse.json(
+      { error: "Failed to compute judge ratings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCategoryLeaderboardRatings, getLeaderboardRatings } from "@/lib/leaderboard";
+import { getPromptCategories, sanitizeCategories } from "@/lib/prompts";
+
+// GET: Global leaderboard, or one re-solved for ?category=... (repeatable)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requested = searchParams.getAll("category");
+    const categories = sanitizeCategories(requested);
+
+    if (requested.length > 0 && categories.length === 0) {
+      return NextResponse.json(
+        { error: "Unknown category", availableCategories: getPromptCategories() },
+        { status: 400 }
+      );
+    }
+
+    const ratings =
+      categories.length > 0
+        ? await getCategoryLeaderboardRatings(categories)
+        : await getLeaderboardRatings();
+
+    return NextResponse.json({ ratings, categories });
+  } catch (error) {
+    console.error("Error fetching leaderboard:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch leaderboard" },
+      { status: 500 }
+    );
+  }
+}
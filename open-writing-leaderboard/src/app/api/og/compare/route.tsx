@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { getHeadToHead } from "@/lib/head-to-head";
+import { computeProficiencies } from "@/lib/proficiencies";
+import { ogModelStats, renderCompareImage } from "@/lib/og-images";
+
+// GET: Open Graph image for /compare?a=...&b=...
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const a = searchParams.get("a");
+  const b = searchParams.get("b");
+
+  if (!a || !b || a === b) {
+    return NextResponse.json({ error: "Two different models are required (?a=&b=)" }, { status: 400 });
+  }
+
+  try {
+    const [ratings, proficiencies, headToHead] = await Promise.all([
+      getLeaderboardRatings(),
+      computeProficiencies(),
+      getHeadToHead(a, b),
+    ]);
+
+    return await renderCompareImage(
+      ogModelStats(a, ratings, proficiencies),
+      ogModelStats(b, ratings, proficiencies),
+      headToHead.overall
+    );
+  } catch (error) {
+    console.error(`Error rendering compare OG image for ${a} vs ${b}:`, error);
+    return NextResponse.json(
+      { error: "Failed to render image" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { computeProficiencies } from "@/lib/proficiencies";
+import { modelNameFromSegments } from "@/lib/model-links";
+import { ogModelStats, renderModelImage } from "@/lib/og-images";
+
+// GET: Open Graph image for a model page
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ modelName: string[] }> }
+) {
+  const { modelName: segments } = await params;
+  const modelName = modelNameFromSegments(segments);
+
+  try {
+    const [ratings, proficiencies] = await Promise.all([
+      getLeaderboardRatings(),
+      computeProficiencies(),
+    ]);
+
+    return await renderModelImage(ogModelStats(modelName, ratings, proficiencies));
+  } catch (error) {
+    console.error(`Error rendering OG image for ${modelName}:`, error);
+    return NextResponse.json(
+      { error: "Failed to render image" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { computeRankRanges } from "@/lib/rank-ranges";
+import { renderHomeImage } from "@/lib/og-images";
+
+// GET: Open Graph image for the home page
+export async function GET() {
+  try {
+    const ratings = await getLeaderboardRatings();
+    return await renderHomeImage(ratings, computeRankRanges(ratings));
+  } catch (error) {
+    console.error("Error rendering home OG image:", error);
+    return NextResponse.json(
+      { error: "Failed to render image" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { prisma } from "@/lib/db";
+import { getRunDetails, resolveModelRun } from "@/lib/model-runs";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function GET(
@@ -7,38 +7,16 @@ export async function GET(
 ) {
   const { modelName } = await params;
   const decodedName = decodeURIComponent(modelName);
+  const { searchParams } = new URL(request.url);
 
-  // Get the most recent completed run for this model
-  const latestRun = await prisma.runs.findFirst({
-    where: {
-      test_model: decodedName,
-      status: "completed",
-    },
-    orderBy: { start_time: "desc" },
-    select: {
-      run_key: true,
-      start_time: true,
-      end_time: true,
-      run_config: true,
-    },
-  });
+  // Get ?runKey=, or the most recent completed run for this model if it
+  // isn't one of the model's
+  const { runKey } = await resolveModelRun(decodedName, searchParams.get("runKey"));
+  const details = runKey ? await getRunDetails(decodedName, runKey) : null;
 
-  if (!latestRun) {
+  if (!details) {
     return NextResponse.json({ error: "No completed run found" }, { status: 404 });
   }
 
-  // Calculate duration in minutes if both times are available
-  let durationMinutes: number | null = null;
-  if (latestRun.start_time && latestRun.end_time) {
-    const durationMs = latestRun.end_time.getTime() - latestRun.start_time.getTime();
-    durationMinutes = Math.round(durationMs / 1000 / 60);
-  }
-
-  return NextResponse.json({
-    runKey: latestRun.run_key,
-    startTime: latestRun.start_time?.toISOString() ?? null,
-    endTime: latestRun.end_time?.toISOString() ?? null,
-    durationMinutes,
-    runConfig: latestRun.run_config,
-  });
+  return NextResponse.json(details);
 }
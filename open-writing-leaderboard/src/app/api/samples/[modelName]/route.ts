@@ -1,4 +1,4 @@
-import { prisma } from "@/lib/db";
+import { getModelSamples, resolveModelRun } from "@/lib/model-runs";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function GET(
@@ -7,36 +7,14 @@ export async function GET(
 ) {
   const { modelName } = await params;
   const decodedName = decodeURIComponent(modelName);
+  const { searchParams } = new URL(request.url);
+  const runKey = searchParams.get("runKey");
 
-  // Get the most recent completed run for this model
-  const latestRun = await prisma.runs.findFirst({
-    where: {
-      test_model: decodedName,
-      status: "completed",
-    },
-    orderBy: { start_time: "desc" },
-    select: { run_key: true },
-  });
+  // Tasks from ?runKey= (or the most recent completed run if it isn't one of
+  // this model's), with lexical metrics but without response content, plus
+  // every completed run for picking another
+  const { runs, runKey: selectedRunKey } = await resolveModelRun(decodedName, runKey);
+  const samples = selectedRunKey ? await getModelSamples(decodedName, selectedRunKey, { metrics: true }) : [];
 
-  if (!latestRun) {
-    return NextResponse.json({ samples: [] });
-  }
-
-  // Get tasks for this run only - exclude response content for fast loading
-  // Response content is lazy loaded via /api/samples/response/[taskId]
-  const tasks = await prisma.tasks.findMany({
-    where: {
-      run_key: latestRun.run_key,
-      status: "completed",
-    },
-    select: {
-      id: true,
-      prompt_id: true,
-      iteration_index: true,
-      aggregated_scores: true,
-    },
-    orderBy: { id: "asc" },
-  });
-
-  return NextResponse.json({ samples: tasks });
+  return NextResponse.json({ samples, runs, runKey: selectedRunKey });
 }
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  parseSearchFilters,
+  searchResponses,
+  SearchQueryError,
+  SearchUnavailableError,
+} from "@/lib/search";
+
+// GET: Completed responses matching ?q=, filtered by ?model=, ?category= and ?prompt=
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const page = Math.max(1, parseInt(searchParams.get("page") ?? "1", 10) || 1);
+
+  try {
+    const results = await searchResponses(
+      searchParams.get("q") ?? "",
+      parseSearchFilters(searchParams),
+      page
+    );
+    return NextResponse.json(results);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SearchUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error("Error searching responses:", error);
+    return NextResponse.json({ error: "Failed to search responses" }, { status: 500 });
+  }
+}
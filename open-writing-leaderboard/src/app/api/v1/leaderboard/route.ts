@@ -0,0 +1,36 @@
+import { getCategoryLeaderboardRatings, getLeaderboardRatings } from "@/lib/leaderboard";
+import { getPromptCategories, sanitizeCategories } from "@/lib/prompts";
+import { computeRankRanges } from "@/lib/rank-ranges";
+import { V1RequestError, v1Handler, v1ListResponse } from "@/lib/api-v1";
+
+// GET: Leaderboard rows, optionally re-solved for ?category=... (repeatable)
+export const GET = v1Handler("leaderboard", async (request) => {
+  const { searchParams } = new URL(request.url);
+  const requested = searchParams.getAll("category");
+  const categories = sanitizeCategories(requested);
+
+  if (requested.length > 0 && categories.length === 0) {
+    throw new V1RequestError(
+      `Unknown category. Available: ${getPromptCategories().join(", ")}`
+    );
+  }
+
+  const ratings =
+    categories.length > 0
+      ? await getCategoryLeaderboardRatings(categories)
+      : await getLeaderboardRatings();
+  const rankRanges = computeRankRanges(ratings);
+
+  const rows = ratings.map((r, i) => ({
+    position: i + 1,
+    rank: rankRanges[i].best,
+    rank_worst: rankRanges[i].worst,
+    model_name: r.model_name,
+    elo: r.elo,
+    elo_norm: r.elo_norm,
+    ci_low: r.ci_low,
+    ci_high: r.ci_high,
+  }));
+
+  return v1ListResponse(request, rows, { filename: "leaderboard" });
+});
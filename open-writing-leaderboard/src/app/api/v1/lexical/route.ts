@@ -0,0 +1,14 @@
+import { getLexicalAnalysis } from "@/lib/lexical-analysis";
+import { v1Handler, v1ListResponse } from "@/lib/api-v1";
+
+// GET: Lexical metrics from each model's latest completed run
+export const GET = v1Handler("lexical metrics", async (request) => {
+  const { models } = await getLexicalAnalysis();
+
+  const rows = models.map((m) => ({
+    model_name: m.model,
+    ...m.lexical_analysis,
+  }));
+
+  return v1ListResponse(request, rows, { filename: "lexical" });
+});
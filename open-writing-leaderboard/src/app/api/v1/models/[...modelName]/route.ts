@@ -0,0 +1,56 @@
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { computeRankRanges } from "@/lib/rank-ranges";
+import { getRunDetails } from "@/lib/model-runs";
+import { computeProficiencies } from "@/lib/proficiencies";
+import { getLexicalAnalysis } from "@/lib/lexical-analysis";
+import { modelNameFromSegments } from "@/lib/model-links";
+import { V1RequestError, v1Handler, v1ItemResponse } from "@/lib/api-v1";
+
+// GET: One model's rating, latest completed run, rubric scores and lexical metrics
+export const GET = v1Handler(
+  "model",
+  async (request, { params }: { params: Promise<{ modelName: string[] }> }) => {
+    const { modelName: segments } = await params;
+    const modelName = modelNameFromSegments(segments);
+
+    const [ratings, latestRun, proficiencies, lexical] = await Promise.all([
+      getLeaderboardRatings(),
+      getRunDetails(modelName),
+      computeProficiencies(),
+      getLexicalAnalysis(),
+    ]);
+
+    const position = ratings.findIndex((r) => r.model_name === modelName);
+    if (position === -1 && !latestRun) {
+      throw new V1RequestError("Model not found", 404);
+    }
+
+    const rating = position === -1 ? null : ratings[position];
+    const rankRange = position === -1 ? null : computeRankRanges(ratings)[position];
+
+    return v1ItemResponse(request, {
+      model_name: modelName,
+      rating: rating && rankRange
+        ? {
+            position: position + 1,
+            rank: rankRange.best,
+            rank_worst: rankRange.worst,
+            elo: rating.elo,
+            elo_norm: rating.elo_norm,
+            ci_low: rating.ci_low,
+            ci_high: rating.ci_high,
+          }
+        : null,
+      latest_run: latestRun
+        ? {
+            run_key: latestRun.runKey,
+            start_time: latestRun.startTime,
+            end_time: latestRun.endTime,
+            duration_minutes: latestRun.durationMinutes,
+          }
+        : null,
+      proficiencies: proficiencies[modelName]?.absoluteScores ?? null,
+      lexical: lexical.models.find((m) => m.model === modelName)?.lexical_analysis ?? null,
+    });
+  }
+);
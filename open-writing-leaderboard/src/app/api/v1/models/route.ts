@@ -0,0 +1,45 @@
+import { prisma } from "@/lib/db";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { getCachedModelMetadata } from "@/lib/model-metadata";
+import { v1Handler, v1ListResponse } from "@/lib/api-v1";
+
+// GET: Every model with a rating or a completed run, leaderboard order first
+export const GET = v1Handler("models", async (request) => {
+  const [ratings, latestRuns, metadata] = await Promise.all([
+    getLeaderboardRatings(),
+    prisma.runs.findMany({
+      where: { status: "completed" },
+      orderBy: { start_time: "desc" },
+      distinct: ["test_model"],
+      select: { test_model: true, run_key: true, end_time: true },
+    }),
+    getCachedModelMetadata(),
+  ]);
+
+  const runByModel = new Map(latestRuns.map((r) => [r.test_model, r]));
+  const rated = new Set(ratings.map((r) => r.model_name));
+
+  const models: { model_name: string; position: number | null; elo: number | null; elo_norm: number | null }[] = [
+    ...ratings.map((r, i) => ({ model_name: r.model_name, position: i + 1, elo: r.elo, elo_norm: r.elo_norm })),
+    ...latestRuns
+      .filter((r) => !rated.has(r.test_model))
+      .map((r) => ({ model_name: r.test_model, position: null, elo: null, elo_norm: null })),
+  ];
+
+  const rows = models.map((m) => {
+    const run = runByModel.get(m.model_name);
+    const meta = metadata[m.model_name];
+    return {
+      ...m,
+      latest_run_key: run?.run_key ?? null,
+      latest_run_completed_at: run?.end_time?.toISOString() ?? null,
+      parameters: meta?.parameters ?? null,
+      architecture: meta?.architecture ?? null,
+      base_model: meta?.baseModel ?? null,
+      license: meta?.license ?? null,
+      quantization: meta?.quantization ?? null,
+    };
+  });
+
+  return v1ListResponse(request, rows, { filename: "models" });
+});
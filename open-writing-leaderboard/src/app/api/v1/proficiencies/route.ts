@@ -0,0 +1,19 @@
+import { computeProficiencies, PROFICIENCY_DIMENSIONS } from "@/lib/proficiencies";
+import { v1Handler, v1ListResponse } from "@/lib/api-v1";
+
+// GET: One row per model with its absolute rubric score (0-20) per dimension
+export const GET = v1Handler("proficiencies", async (request) => {
+  const proficiencies = await computeProficiencies();
+
+  const rows = Object.entries(proficiencies).map(([model_name, p]) => ({
+    model_name,
+    ...Object.fromEntries(
+      PROFICIENCY_DIMENSIONS.map((d) => [d, p.absoluteScores[d] ?? null])
+    ),
+  }));
+
+  return v1ListResponse(request, rows, {
+    filename: "proficiencies",
+    columns: ["model_name", ...PROFICIENCY_DIMENSIONS],
+  });
+});
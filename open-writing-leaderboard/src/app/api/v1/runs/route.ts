@@ -0,0 +1,38 @@
+import { prisma } from "@/lib/db";
+import { v1Handler, v1ListResponse } from "@/lib/api-v1";
+
+// GET: Benchmark runs, newest first. Filter with ?model= and ?status= (default completed)
+export const GET = v1Handler("runs", async (request) => {
+  const { searchParams } = new URL(request.url);
+  const model = searchParams.get("model");
+  const status = searchParams.get("status") ?? "completed";
+
+  const runs = await prisma.runs.findMany({
+    where: {
+      ...(model ? { test_model: model } : {}),
+      ...(status !== "all" ? { status } : {}),
+    },
+    orderBy: { start_time: "desc" },
+    select: {
+      run_key: true,
+      test_model: true,
+      status: true,
+      start_time: true,
+      end_time: true,
+    },
+  });
+
+  const rows = runs.map((r) => ({
+    run_key: r.run_key,
+    model_name: r.test_model,
+    status: r.status,
+    start_time: r.start_time?.toISOString() ?? null,
+    end_time: r.end_time?.toISOString() ?? null,
+    duration_minutes:
+      r.start_time && r.end_time
+        ? Math.round((r.end_time.getTime() - r.start_time.getTime()) / 1000 / 60)
+        : null,
+  }));
+
+  return v1ListResponse(request, rows, { filename: "runs" });
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getWinRateMatrix } from "@/lib/win-rate-matrix";
+
+// GET: N×N pairwise win rates and comparison counts, models sorted by Elo
+export async function GET() {
+  try {
+    return NextResponse.json(await getWinRateMatrix());
+  } catch (error) {
+    console.error("Error building win-rate matrix:", error);
+    return NextResponse.json(
+      { error: "Failed to build win-rate matrix" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,339 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { selectClassName } from "@/components/ui/native-select";
+import { CompareResponses, type ComparePrompt } from "@/components/compare-responses";
+import { getLeaderboardRatings, type LeaderboardRating } from "@/lib/leaderboard";
+import { getHeadToHead, type HeadToHeadRecord } from "@/lib/head-to-head";
+import { getModelSamples, type SampleSummary } from "@/lib/model-runs";
+import { computeProficiencies, type ModelProficiency } from "@/lib/proficiencies";
+import { promptsData } from "@/lib/prompts";
+import { compareOgImagePath, modelPagePath } from "@/lib/model-links";
+
+export const dynamic = "force-dynamic";
+
+interface ComparePageProps {
+  searchParams: Promise<{ a?: string; b?: string }>;
+}
+
+export async function generateMetadata({ searchParams }: ComparePageProps): Promise<Metadata> {
+  const { a, b } = await searchParams;
+  if (!a || !b || a === b) {
+    return { title: "Compare Models — Open Writing Leaderboard" };
+  }
+  const title = `${a} vs ${b} — Open Writing Leaderboard`;
+  return {
+    title,
+    openGraph: {
+      title,
+      description: `Head-to-head results, rubric scores and responses for ${a} and ${b}`,
+      images: [{ url: compareOgImagePath(a, b), width: 1200, height: 630 }],
+    },
+  };
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(0)}%`;
+}
+
+function WinRateBar({ winRate }: { winRate: number | null }) {
+  const width = winRate === null ? 50 : winRate * 100;
+  return (
+    <div className="relative h-2 w-full overflow-hidden rounded-full bg-chart-2/40">
+      <div className="absolute inset-y-0 left-0 rounded-full bg-chart-1" style={{ width: `${width}%` }} />
+      <div className="absolute inset-y-0 left-1/2 w-px bg-foreground/40" />
+    </div>
+  );
+}
+
+function formatRecord(record: HeadToHeadRecord): string {
+  return `${record.wins}–${record.draws}–${record.losses}`;
+}
+
+/**
+ * One entry per prompt either model has a sample for, using each model's
+ * first iteration.
+ */
+function buildComparePrompts(
+  samplesA: SampleSummary[],
+  samplesB: SampleSummary[],
+  items: { itemId: string; fractionForA: number | null }[]
+): ComparePrompt[] {
+  const firstTask = (samples: SampleSummary[]) => {
+    const byPrompt = new Map<string, SampleSummary>();
+    for (const s of samples) {
+      const existing = byPrompt.get(s.prompt_id);
+      if (!existing || s.iteration_index < existing.iteration_index) {
+        byPrompt.set(s.prompt_id, s);
+      }
+    }
+    return byPrompt;
+  };
+
+  const tasksA = firstTask(samplesA);
+  const tasksB = firstTask(samplesB);
+
+  const fractions = new Map<string, number[]>();
+  for (const item of items) {
+    if (item.fractionForA === null) continue;
+    fractions.set(item.itemId, [...(fractions.get(item.itemId) ?? []), item.fractionForA]);
+  }
+
+  const promptIds = [...new Set([...tasksA.keys(), ...tasksB.keys()])].sort(
+    (x, y) => Number(x) - Number(y) || x.localeCompare(y)
+  );
+
+  return promptIds.map((promptId) => {
+    const itemFractions = fractions.get(promptId);
+    return {
+      promptId,
+      category: promptsData[promptId]?.category ?? null,
+      prompt: promptsData[promptId]?.prompt ?? null,
+      fractionForA: itemFractions
+        ? itemFractions.reduce((sum, f) => sum + f, 0) / itemFractions.length
+        : null,
+      taskA: tasksA.get(promptId)?.id ?? null,
+      taskB: tasksB.get(promptId)?.id ?? null,
+    };
+  });
+}
+
+function ModelPicker({ models, a, b }: { models: string[]; a?: string; b?: string }) {
+  return (
+    <form action="/compare" className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+      <select name="a" aria-label="Model A" defaultValue={a ?? ""} className={selectClassName} required>
+        <option value="" disabled>Model A</option>
+        {models.map((m) => (
+          <option key={m} value={m}>{m}</option>
+        ))}
+      </select>
+      <select name="b" aria-label="Model B" defaultValue={b ?? ""} className={selectClassName} required>
+        <option value="" disabled>Model B</option>
+        {models.map((m) => (
+          <option key={m} value={m}>{m}</option>
+        ))}
+      </select>
+      <Button type="submit">Compare</Button>
+    </form>
+  );
+}
+
+function ProficiencyComparison({
+  modelA,
+  modelB,
+  proficiencyA,
+  proficiencyB,
+}: {
+  modelA: string;
+  modelB: string;
+  proficiencyA: ModelProficiency | undefined;
+  proficiencyB: ModelProficiency | undefined;
+}) {
+  const criteria = [
+    ...new Set([
+      ...Object.keys(proficiencyA?.absoluteScores ?? {}),
+      ...Object.keys(proficiencyB?.absoluteScores ?? {}),
+    ]),
+  ].sort((x, y) => x.localeCompare(y));
+
+  if (criteria.length === 0) {
+    return <p className="text-sm text-muted-foreground">No rubric data available.</p>;
+  }
+
+  // Rubric scores are stored 0-20; shown 0-10 like the analysis view
+  const score = (p: ModelProficiency | undefined, criterion: string) => {
+    const value = p?.absoluteScores[criterion];
+    return value === undefined ? null : value / 2;
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Criterion</TableHead>
+          <TableHead className="text-right break-all" title={modelA}>A</TableHead>
+          <TableHead className="text-right break-all" title={modelB}>B</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {criteria.map((criterion) => {
+          const scoreA = score(proficiencyA, criterion);
+          const scoreB = score(proficiencyB, criterion);
+          const aBetter = scoreA !== null && scoreB !== null && scoreA > scoreB;
+          const bBetter = scoreA !== null && scoreB !== null && scoreB > scoreA;
+          return (
+            <TableRow key={criterion}>
+              <TableCell className="text-sm">{criterion}</TableCell>
+              <TableCell className={`text-right font-mono ${aBetter ? "font-bold" : "text-muted-foreground"}`}>
+                {scoreA?.toFixed(1) ?? "—"}
+              </TableCell>
+              <TableCell className={`text-right font-mono ${bBetter ? "font-bold" : "text-muted-foreground"}`}>
+                {scoreB?.toFixed(1) ?? "—"}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+function ModelHeading({ label, name, rating }: { label: string; name: string; rating?: LeaderboardRating }) {
+  return (
+    <div className="min-w-0">
+      <div className="text-xs font-medium text-muted-foreground">MODEL {label}</div>
+      <Link href={modelPagePath(name)} className="font-semibold break-all hover:underline">
+        {name}
+      </Link>
+      {rating?.elo != null && (
+        <div className="text-sm font-mono text-muted-foreground">ELO {rating.elo.toFixed(0)}</div>
+      )}
+    </div>
+  );
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { a, b } = await searchParams;
+  const ratings = await getLeaderboardRatings();
+  const models = ratings.map((r) => r.model_name);
+
+  const header = (
+    <div className="max-w-5xl mx-auto px-2 sm:px-0 space-y-4">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Compare Models</h1>
+        <p className="mt-2 text-muted-foreground">
+          Head-to-head results, rubric scores and responses for two models
+        </p>
+      </div>
+      <ModelPicker models={models} a={a} b={b} />
+    </div>
+  );
+
+  if (!a || !b) {
+    return <div className="space-y-8">{header}</div>;
+  }
+
+  if (a === b) {
+    return (
+      <div className="space-y-8">
+        {header}
+        <p className="text-center text-sm text-muted-foreground">Pick two different models.</p>
+      </div>
+    );
+  }
+
+  const [headToHead, samplesA, samplesB, proficiencies] = await Promise.all([
+    getHeadToHead(a, b),
+    getModelSamples(a),
+    getModelSamples(b),
+    computeProficiencies(),
+  ]);
+
+  const ratingA = ratings.find((r) => r.model_name === a);
+  const ratingB = ratings.find((r) => r.model_name === b);
+  const prompts = buildComparePrompts(samplesA, samplesB, headToHead.items);
+  const { overall } = headToHead;
+
+  return (
+    <div className="space-y-8">
+      {header}
+
+      <div className="max-w-5xl mx-auto px-2 sm:px-0 space-y-8">
+        <Card>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <ModelHeading label="A" name={a} rating={ratingA} />
+              <div className="text-right">
+                <ModelHeading label="B" name={b} rating={ratingB} />
+              </div>
+            </div>
+            {overall.matchups === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                These models have not been compared against each other yet.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-2xl font-bold font-mono">{formatPercent(overall.winRate)}</span>
+                  <span className="text-2xl font-bold font-mono text-muted-foreground">
+                    {formatPercent(overall.winRate === null ? null : 1 - overall.winRate)}
+                  </span>
+                </div>
+                <WinRateBar winRate={overall.winRate} />
+                <p className="text-xs text-muted-foreground">
+                  A&apos;s share of judge credit over {overall.matchups} matchups. Record (W–D–L for A):{" "}
+                  <span className="font-mono">{formatRecord(overall)}</span>
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {headToHead.categories.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">WIN RATE BY CATEGORY</h2>
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Matchups</TableHead>
+                      <TableHead className="text-right hidden sm:table-cell">W–D–L</TableHead>
+                      <TableHead className="w-1/3">A win rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {headToHead.categories.map((c) => (
+                      <TableRow key={c.category}>
+                        <TableCell className="whitespace-normal">{c.category}</TableCell>
+                        <TableCell className="text-right font-mono">{c.matchups}</TableCell>
+                        <TableCell className="text-right font-mono hidden sm:table-cell">{formatRecord(c)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <WinRateBar winRate={c.winRate} />
+                            <span className="font-mono text-xs w-10 text-right shrink-0">
+                              {formatPercent(c.winRate)}
+                            </span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h2>
+          <Card>
+            <CardContent className="p-0">
+              <ProficiencyComparison
+                modelA={a}
+                modelB={b}
+                proficiencyA={proficiencies[a]}
+                proficiencyB={proficiencies[b]}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">RESPONSES</h2>
+          <CompareResponses modelA={a} modelB={b} prompts={prompts} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { feedResponse } from "@/lib/feed";
+
+// GET: JSON Feed of completed evaluations and rank changes
+export async function GET(request: NextRequest) {
+  return feedResponse(request, "json");
+}
@@ -0,0 +1,133 @@
+import Link from "next/link";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Leaderboard } from "@/components/leaderboard";
+import {
+  getSnapshotAt,
+  listSnapshots,
+  parseSnapshotDate,
+} from "@/lib/leaderboard-snapshots";
+
+export const dynamic = "force-dynamic";
+
+interface HistoryPageProps {
+  searchParams: Promise<{ at?: string }>;
+}
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  }).format(date);
+}
+
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  const { at } = await searchParams;
+  const atDate = parseSnapshotDate(at);
+
+  const [snapshot, snapshots] = await Promise.all([
+    atDate ? getSnapshotAt(atDate) : Promise.resolve(null),
+    listSnapshots(),
+  ]);
+
+  return (
+    <div className="space-y-8">
+      <div className="max-w-4xl mx-auto px-2 sm:px-0">
+        <h1 className="text-3xl font-bold tracking-tight">Leaderboard History</h1>
+        <p className="mt-2 text-muted-foreground">
+          View the leaderboard as it was published at any past date
+        </p>
+
+        <form action="/history" className="mt-6 flex items-center gap-2 max-w-sm">
+          <Input
+            type="date"
+            name="at"
+            defaultValue={at && /^\d{4}-\d{2}-\d{2}$/.test(at) ? at : undefined}
+            required
+          />
+          <Button type="submit">View</Button>
+        </form>
+      </div>
+
+      {at && !atDate && (
+        <p className="text-center text-sm text-muted-foreground">
+          Invalid date: {at}
+        </p>
+      )}
+
+      {atDate && !snapshot && (
+        <p className="text-center text-sm text-muted-foreground">
+          No snapshot exists on or before {formatDate(atDate)}.
+        </p>
+      )}
+
+      {snapshot && (
+        <div className="space-y-2">
+          <p className="text-center text-sm font-medium flex items-center justify-center gap-2">
+            <History className="h-4 w-4" />
+            Snapshot from {formatDate(snapshot.snapshotAt)}
+          </p>
+          <Leaderboard ratings={snapshot.data.ratings} />
+        </div>
+      )}
+
+      <div className="max-w-4xl mx-auto">
+        <h2 className="text-sm font-medium text-muted-foreground mb-3 px-2 sm:px-0">
+          ALL SNAPSHOTS
+        </h2>
+        {snapshots.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              No snapshots recorded yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Snapshot</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {snapshots.map((s) => (
+                    <TableRow
+                      key={s.id}
+                      className={snapshot?.id === s.id ? "bg-muted/50" : undefined}
+                    >
+                      <TableCell className="font-medium">{formatDate(s.snapshotAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/history?at=${encodeURIComponent(s.snapshotAt.toISOString())}`}>
+                            View
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { selectClassName } from "@/components/ui/native-select";
+import { JudgeScoreTable } from "@/components/judge-score-table";
+import { getJudgeDisagreement } from "@/lib/judge-disagreement";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { disagreementPath, modelPagePath, promptPagePath, samplePath } from "@/lib/model-links";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Judge Disagreement — Open Writing Leaderboard",
+};
+
+interface DisagreementPageProps {
+  searchParams: Promise<{ model?: string }>;
+}
+
+export default async function DisagreementPage({ searchParams }: DisagreementPageProps) {
+  const { model } = await searchParams;
+  const [ratings, { samples, dimensions }] = await Promise.all([
+    getLeaderboardRatings(),
+    getJudgeDisagreement(model || null),
+  ]);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 px-2 sm:px-0">
+      <Link
+        href="/judges"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Judges
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Judge Disagreement</h1>
+        <p className="mt-2 text-muted-foreground">
+          Samples whose rubric scores the judges disagree on most, from each model&apos;s
+          latest run. A sample&apos;s disagreement is the mean variance across judges of
+          its rubric dimensions, on the 0–20 score scale.
+        </p>
+      </div>
+
+      <form action={disagreementPath()} className="flex gap-2">
+        <select name="model" aria-label="Model" defaultValue={model ?? ""} className={selectClassName}>
+          <option value="">All models</option>
+          {ratings.map((r) => (
+            <option key={r.model_name} value={r.model_name}>{r.model_name}</option>
+          ))}
+        </select>
+        <Button type="submit" variant="outline">Show</Button>
+      </form>
+
+      {samples.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No samples were scored by more than one judge.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div>
+            <h2 className="text-xs font-medium text-muted-foreground mb-3">
+              MOST CONTESTED DIMENSIONS
+            </h2>
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Dimension</TableHead>
+                      <TableHead className="text-right">Mean variance</TableHead>
+                      <TableHead className="text-right">Samples</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dimensions.map((d) => (
+                      <TableRow key={d.dimension}>
+                        <TableCell className="capitalize whitespace-normal">
+                          {d.dimension.replace(/_/g, " ")}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{d.meanVariance.toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-mono">{d.tasks}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-3">
+            <h2 className="text-xs font-medium text-muted-foreground">
+              MOST CONTROVERSIAL SAMPLES
+            </h2>
+            {samples.map((sample) => (
+              <Card key={sample.taskId}>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                    <Link href={modelPagePath(sample.model)} className="font-medium break-all hover:underline">
+                      {sample.model}
+                    </Link>
+                    <Link
+                      href={promptPagePath(sample.promptId)}
+                      className="text-muted-foreground hover:underline hover:text-foreground"
+                    >
+                      #{sample.promptId} {sample.category ?? ""}
+                    </Link>
+                    <Badge variant="secondary" className="font-mono">
+                      variance {sample.disagreement.toFixed(1)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      most contested: <span className="capitalize">{sample.topDimension.replace(/_/g, " ")}</span>
+                      {" "}({sample.topVariance.toFixed(1)})
+                    </span>
+                  </div>
+                  <JudgeScoreTable judges={sample.judges} />
+                  <Link
+                    href={samplePath(sample.model, sample.taskId)}
+                    className="inline-block text-xs text-muted-foreground hover:underline hover:text-foreground"
+                  >
+                    Read the sample →
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getJudgeLeaderboards, type JudgeLeaderboard } from "@/lib/judge-ratings";
+import { disagreementPath, modelPagePath } from "@/lib/model-links";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Judges — Open Writing Leaderboard",
+};
+
+function formatCorrelation(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function rankLookup(judge: JudgeLeaderboard): Map<string, { rank: number; elo: number }> {
+  return new Map(judge.ratings.map((r, i) => [r.model_name, { rank: i + 1, elo: r.elo }]));
+}
+
+export default async function JudgesPage() {
+  const { published, judges, correlations } = await getJudgeLeaderboards();
+  const lookups = judges.map(rankLookup);
+
+  return (
+    <div className="space-y-8">
+      <div className="max-w-4xl mx-auto px-2 sm:px-0">
+        <h1 className="text-3xl font-bold tracking-tight">Judges</h1>
+        <p className="mt-2 text-muted-foreground">
+          The leaderboard re-solved from each judge model&apos;s verdicts alone. Rank
+          changes are relative to the published board, which blends all judges.
+        </p>
+        <Link
+          href={disagreementPath()}
+          className="inline-block mt-2 text-sm text-muted-foreground hover:underline hover:text-foreground"
+        >
+          Samples the judges disagree on most →
+        </Link>
+      </div>
+
+      {judges.length === 0 ? (
+        <Card className="max-w-4xl mx-auto">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No per-judge verdicts recorded.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card className="max-w-6xl mx-auto">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">ELO</TableHead>
+                    {judges.map((j) => (
+                      <TableHead
+                        key={j.judge}
+                        className="text-right"
+                        title={`${j.comparisons} comparisons`}
+                      >
+                        {j.judge}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {published.map((rating, index) => {
+                    const rank = index + 1;
+                    return (
+                      <TableRow key={rating.model_name}>
+                        <TableCell className="font-mono">{rank}</TableCell>
+                        <TableCell className="font-medium whitespace-normal break-all">
+                          <Link href={modelPagePath(rating.model_name)} className="hover:underline">
+                            {rating.model_name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {rating.elo?.toFixed(0) ?? "—"}
+                        </TableCell>
+                        {lookups.map((lookup, k) => {
+                          const judged = lookup.get(rating.model_name);
+                          if (!judged) {
+                            return (
+                              <TableCell key={judges[k].judge} className="text-right text-muted-foreground">
+                                —
+                              </TableCell>
+                            );
+                          }
+                          const delta = rank - judged.rank;
+                          return (
+                            <TableCell key={judges[k].judge} className="text-right font-mono">
+                              <span title={`ELO ${judged.elo.toFixed(0)}`}>#{judged.rank}</span>
+                              {delta !== 0 && (
+                                <span
+                                  className={`ml-1 text-xs ${
+                                    delta > 0
+                                      ? "text-green-600 dark:text-green-400"
+                                      : "text-red-600 dark:text-red-400"
+                                  }`}
+                                >
+                                  {delta > 0 ? `+${delta}` : delta}
+                                </span>
+                              )}
+                              <span className="ml-2 text-xs text-muted-foreground hidden sm:inline">
+                                {judged.elo.toFixed(0)}
+                              </span>
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="max-w-4xl mx-auto">
+            <h2 className="text-sm font-medium text-muted-foreground mb-3 px-2 sm:px-0">
+              RANK AGREEMENT
+            </h2>
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Board</TableHead>
+                      <TableHead>Board</TableHead>
+                      <TableHead className="text-right">Models</TableHead>
+                      <TableHead className="text-right">Spearman ρ</TableHead>
+                      <TableHead className="text-right">Kendall τ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {correlations.map((c) => (
+                      <TableRow key={`${c.boardA}|${c.boardB}`}>
+                        <TableCell>{c.boardA}</TableCell>
+                        <TableCell>{c.boardB}</TableCell>
+                        <TableCell className="text-right font-mono">{c.models}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCorrelation(c.spearman)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCorrelation(c.kendall)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+            <p className="mt-2 px-2 sm:px-0 text-xs text-muted-foreground">
+              1 means both boards order the shared models identically; 0 means no relationship.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,8 +8,23 @@ import { Header } from "@/components/header";
 import "./globals.css";
 
 export const metadata: Metadata = {
+  // Social previews need absolute image URLs
+  metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
   title: "Open Writing Leaderboard",
   description: "Benchmarking creative writing capabilities of language models",
+  openGraph: {
+    siteName: "Open Writing Leaderboard",
+    images: [{ url: "/api/og", width: 1200, height: 630 }],
+  },
+  twitter: {
+    card: "summary_large_image",
+  },
+  alternates: {
+    types: {
+      "application/atom+xml": "/feed.xml",
+      "application/feed+json": "/feed.json",
+    },
+  },
 };
 
 export default function RootLayout({
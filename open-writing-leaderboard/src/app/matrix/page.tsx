@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { WinRateHeatmap } from "@/components/win-rate-heatmap";
+import { getWinRateMatrix } from "@/lib/win-rate-matrix";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Win-Rate Matrix — Open Writing Leaderboard",
+};
+
+export default async function MatrixPage() {
+  const matrix = await getWinRateMatrix();
+
+  return (
+    <div className="space-y-6">
+      <div className="max-w-4xl mx-auto px-2 sm:px-0">
+        <h1 className="text-3xl font-bold tracking-tight">Win-Rate Matrix</h1>
+        <p className="mt-2 text-muted-foreground">
+          Each cell is the row model&apos;s average share of judge credit against the
+          column model. Empty cells are pairs that were never compared. Click a cell
+          to compare the two models.
+        </p>
+      </div>
+      <WinRateHeatmap matrix={matrix} />
+    </div>
+  );
+}
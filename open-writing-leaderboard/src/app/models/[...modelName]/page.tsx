@@ -0,0 +1,208 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { ModelTabs } from "@/components/model-tabs";
+import { AnalysisContent } from "@/components/analysis-modal";
+import { RunDetailsContent } from "@/components/run-details-modal";
+import { MatchupsPanel, SamplesPanel } from "@/components/samples-modal";
+import { RunSelector } from "@/components/run-selector";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { computeRankRanges } from "@/lib/rank-ranges";
+import { getModelSamples, getRunDetails, resolveModelRun } from "@/lib/model-runs";
+import { getMatchupSummaries } from "@/lib/matchups";
+import { getLexicalAnalysis } from "@/lib/lexical-analysis";
+import { computeProficiencies } from "@/lib/proficiencies";
+import { getJudgeDisagreement, type ControversialSample } from "@/lib/judge-disagreement";
+import {
+  disagreementPath,
+  modelNameFromSegments,
+  modelOgImagePath,
+  samplePath,
+} from "@/lib/model-links";
+
+export const dynamic = "force-dynamic";
+
+interface ModelPageProps {
+  params: Promise<{ modelName: string[] }>;
+  searchParams: Promise<{ sample?: string; run?: string }>;
+}
+
+// Samples shown in the analysis tab's judge disagreement list
+const CONTROVERSIAL_PREVIEW_COUNT = 5;
+
+function ControversialSamples({ modelName, samples }: { modelName: string; samples: ControversialSample[] }) {
+  if (samples.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-muted-foreground">MOST CONTROVERSIAL SAMPLES</h3>
+      <p className="text-xs text-muted-foreground">
+        Where the judges&apos; rubric scores differ most (mean variance across judges, 0–20 scale).
+      </p>
+      <div className="divide-y rounded-lg border">
+        {samples.map((sample) => (
+          <Link
+            key={sample.taskId}
+            href={samplePath(modelName, sample.taskId)}
+            className="flex items-center justify-between gap-3 px-4 py-2 text-sm hover:bg-muted/50 transition-colors"
+          >
+            <span className="min-w-0 truncate">
+              {sample.category ?? `Prompt ${sample.promptId}`}
+              <span className="ml-2 text-xs text-muted-foreground">#{sample.promptId}</span>
+            </span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              <span className="capitalize">{sample.topDimension.replace(/_/g, " ")}</span>
+              <span className="ml-3 font-mono text-foreground">{sample.disagreement.toFixed(1)}</span>
+            </span>
+          </Link>
+        ))}
+      </div>
+      <Link
+        href={disagreementPath(modelName)}
+        className="inline-block text-xs text-muted-foreground hover:underline hover:text-foreground"
+      >
+        Compare every judge&apos;s scores →
+      </Link>
+    </div>
+  );
+}
+
+export async function generateMetadata({ params }: ModelPageProps): Promise<Metadata> {
+  const { modelName: segments } = await params;
+  const modelName = modelNameFromSegments(segments);
+  const title = `${modelName} — Open Writing Leaderboard`;
+  const description = `Ratings, analysis, writing samples and matchups for ${modelName}`;
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      images: [{ url: modelOgImagePath(modelName), width: 1200, height: 630 }],
+    },
+  };
+}
+
+export default async function ModelPage({ params, searchParams }: ModelPageProps) {
+  const { modelName: segments } = await params;
+  const modelName = modelNameFromSegments(segments);
+  const { sample, run } = await searchParams;
+  // An unknown ?run= falls back to the most recent run
+  const { runs, runKey } = await resolveModelRun(modelName, run);
+
+  const [ratings, runDetails, samples, matchupSummaries, lexical, proficiencies, disagreement] =
+    await Promise.all([
+      getLeaderboardRatings(),
+      getRunDetails(modelName, runKey),
+      getModelSamples(modelName, runKey, { metrics: true }),
+      getMatchupSummaries(modelName),
+      getLexicalAnalysis(),
+      computeProficiencies(),
+      getJudgeDisagreement(modelName, CONTROVERSIAL_PREVIEW_COUNT),
+    ]);
+
+  const position = ratings.findIndex((r) => r.model_name === modelName);
+  if (position === -1 && !runDetails) {
+    notFound();
+  }
+
+  const rating = position === -1 ? null : ratings[position];
+  const rankRange = position === -1 ? null : computeRankRanges(ratings)[position];
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 px-2 sm:px-0">
+      <Link
+        href="/"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Leaderboard
+      </Link>
+
+      <div className="space-y-3">
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight break-all">{modelName}</h1>
+        {rating && rankRange ? (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={rankRange.best === 1 ? "default" : "secondary"} className="font-mono">
+              {rankRange.tied && "="}#{rankRange.best}
+            </Badge>
+            {rankRange.worst !== rankRange.best && (
+              <span className="text-muted-foreground">
+                plausible rank {rankRange.best}–{rankRange.worst}
+              </span>
+            )}
+            {rating.elo !== null && (
+              <span className="font-mono">
+                ELO {rating.elo.toFixed(0)}
+                {rating.ci_low !== null && rating.ci_high !== null && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    (95% CI {rating.ci_low.toFixed(0)}–{rating.ci_high.toFixed(0)})
+                  </span>
+                )}
+              </span>
+            )}
+            {rating.elo_norm !== null && (
+              <span className="font-mono text-muted-foreground">
+                Normalised {rating.elo_norm.toFixed(1)}
+              </span>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Not yet rated on the leaderboard.
+          </p>
+        )}
+      </div>
+
+      <ModelTabs
+        modelName={modelName}
+        matchupCount={matchupSummaries.length}
+        overview={
+          runDetails ? (
+            <div className="space-y-4">
+              <RunSelector runs={runs} runKey={runKey} />
+              <Card>
+                <CardContent>
+                  <RunDetailsContent details={runDetails} />
+                </CardContent>
+              </Card>
+            </div>
+          ) : (
+            <p className="py-8 text-center text-muted-foreground">
+              No completed run found for this model.
+            </p>
+          )
+        }
+        analysis={
+          <div className="space-y-8">
+            <AnalysisContent
+              modelName={modelName}
+              lexical={lexical}
+              proficiency={proficiencies[modelName]}
+            />
+            <ControversialSamples modelName={modelName} samples={disagreement.samples} />
+          </div>
+        }
+        samples={
+          <SamplesPanel
+            samples={samples}
+            loading={false}
+            initialSampleId={samples.find((s) => String(s.id) === sample)?.id ?? null}
+            runSelector={<RunSelector runs={runs} runKey={runKey} />}
+          />
+        }
+        matchups={
+          <MatchupsPanel
+            modelName={modelName}
+            summaries={matchupSummaries}
+            loading={false}
+          />
+        }
+      />
+    </div>
+  );
+}
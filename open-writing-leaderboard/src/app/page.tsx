@@ -1,24 +1,86 @@
+import { after } from "next/server";
+import Link from "next/link";
 import { prisma } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { Leaderboard } from "@/components/leaderboard";
+import {
+  getCategoryLeaderboardRatings,
+  getLeaderboardRatings,
+  type LeaderboardRating,
+} from "@/lib/leaderboard";
+import { getPromptCategories, sanitizeCategories } from "@/lib/prompts";
+import { ensureLatestSnapshot, getSnapshotAt } from "@/lib/leaderboard-snapshots";
+import { diffLeaderboards } from "@/lib/leaderboard-diff";
+import { computeProficiencies, PROFICIENCY_DIMENSIONS } from "@/lib/proficiencies";
+import {
+  getCachedModelMetadata,
+  refreshStaleModelMetadata,
+  staleModelNames,
+} from "@/lib/model-metadata";
+import {
+  computeCompositeScore,
+  resolveRankingWeights,
+  type RankingWeights,
+} from "@/lib/custom-ranking";
+import {
+  getSeason,
+  getSeasonCategoryRatings,
+  listSeasons,
+  seasonRunKeys,
+  seasonSummary,
+  type Season,
+} from "@/lib/seasons";
 
 export const dynamic = "force-dynamic";
 
-async function getLeaderboardData() {
-  const ratings = await prisma.elo_ratings.findMany({
-    orderBy: {
-      elo: "desc",
-    },
-    select: {
-      model_name: true,
-      elo: true,
-      elo_norm: true,
-      ci_low: true,
-      ci_high: true,
-    },
-  });
+// Rank movement is shown relative to the board this many days ago
+const MOVEMENT_WINDOW_DAYS = 7;
+
+interface HomeProps {
+  searchParams: Promise<{
+    category?: string | string[];
+    preset?: string;
+    weights?: string;
+    season?: string;
+  }>;
+}
+
+async function getLeaderboardData(categories: string[], season: Season | null) {
+  if (season) {
+    return categories.length > 0 ? getSeasonCategoryRatings(season, categories) : season.ratings;
+  }
+  if (categories.length > 0) {
+    return getCategoryLeaderboardRatings(categories);
+  }
+  return getLeaderboardRatings();
+}
+
+async function getMovementBaseline() {
+  const since = new Date();
+  since.setDate(since.getDate() - MOVEMENT_WINDOW_DAYS);
+  return getSnapshotAt(since);
+}
 
-  return ratings;
+/**
+ * Re-sort the board by weighted rubric score. Models without rubric scores
+ * drop to the bottom in Elo order.
+ */
+async function applyCustomRanking(ratings: LeaderboardRating[], weights: RankingWeights) {
+  const proficiencies = await computeProficiencies();
+  return ratings
+    .map((rating) => {
+      const proficiency = proficiencies[rating.model_name];
+      return {
+        ...rating,
+        composite: proficiency ? computeCompositeScore(proficiency.absoluteScores, weights) : null,
+      };
+    })
+    .sort((a, b) => {
+      if (a.composite === null || b.composite === null) {
+        return a.composite === null ? (b.composite === null ? 0 : 1) : -1;
+      }
+      return b.composite - a.composite;
+    });
 }
 
 async function getUserRole() {
@@ -33,15 +95,97 @@ async function getUserRole() {
   return user?.role ?? null;
 }
 
-export default async function Home() {
-  const [ratings, userRole] = await Promise.all([
-    getLeaderboardData(),
+export default async function Home({ searchParams }: HomeProps) {
+  const { category, preset, weights, season: seasonSlug } = await searchParams;
+  const [season, seasons] = await Promise.all([
+    seasonSlug ? getSeason(seasonSlug) : Promise.resolve(null),
+    listSeasons(),
+  ]);
+  // Archived seasons have no rubric scores to rank by
+  const customRanking = season
+    ? null
+    : resolveRankingWeights({ preset, weights }, PROFICIENCY_DIMENSIONS);
+  // Custom rankings use the global board, so category filters don't apply
+  const selectedCategories = customRanking
+    ? []
+    : sanitizeCategories(Array.isArray(category) ? category : category ? [category] : []);
+
+  const [ratings, userRole, baseline, metadata] = await Promise.all([
+    getLeaderboardData(selectedCategories, season).then((r) =>
+      customRanking ? applyCustomRanking(r, customRanking.weights) : r
+    ),
     getUserRole(),
+    // Movement only makes sense against the published (global) board in Elo order
+    selectedCategories.length === 0 && !customRanking && !season
+      ? getMovementBaseline()
+      : Promise.resolve(null),
+    getCachedModelMetadata(),
   ]);
 
+  // Record a history snapshot whenever elo_ratings has changed (a cheap check
+  // unless it has)
+  after(() =>
+    ensureLatestSnapshot().catch((error) => {
+      console.error("Snapshot error:", error);
+    })
+  );
+
+  // Fill in missing or outdated model metadata a few models at a time
+  const staleModels = season ? [] : staleModelNames(ratings.map((r) => r.model_name), metadata);
+  if (staleModels.length > 0) {
+    after(() =>
+      refreshStaleModelMetadata(staleModels).catch((error) => {
+        console.error("Model metadata error:", error);
+      })
+    );
+  }
+
+  const boardRatings = baseline ? diffLeaderboards(ratings, baseline.data.ratings) : ratings;
+
   return (
     <div className="space-y-8">
-      <Leaderboard ratings={ratings} isAdmin={userRole === "admin"} />
+      <Leaderboard
+        ratings={boardRatings.map((r) => ({ ...r, metadata: metadata[r.model_name] ?? null }))}
+        movementSince={baseline?.snapshotAt.toISOString()}
+        isAdmin={userRole === "admin"}
+        categories={getPromptCategories()}
+        selectedCategories={selectedCategories}
+        rankingDimensions={PROFICIENCY_DIMENSIONS}
+        rankingWeights={customRanking?.weights ?? null}
+        rankingPresetId={customRanking?.presetId ?? null}
+        seasons={seasons}
+        season={season && seasonSummary(season)}
+        seasonRuns={season ? seasonRunKeys(season) : undefined}
+      />
+      <p className="text-center text-xs text-muted-foreground">
+        <Link href="/history" className="hover:underline hover:text-foreground transition-colors">
+          Browse past versions of the leaderboard
+        </Link>
+        {" · "}
+        <Link href="/matrix" className="hover:underline hover:text-foreground transition-colors">
+          Pairwise win-rate matrix
+        </Link>
+        {" · "}
+        <Link href="/judges" className="hover:underline hover:text-foreground transition-colors">
+          Per-judge ratings
+        </Link>
+        {" · "}
+        <Link href="/pareto" className="hover:underline hover:text-foreground transition-colors">
+          Pareto frontier
+        </Link>
+        {" · "}
+        <Link href="/prompts" className="hover:underline hover:text-foreground transition-colors">
+          Prompts
+        </Link>
+        {" · "}
+        <Link href="/search" className="hover:underline hover:text-foreground transition-colors">
+          Search responses
+        </Link>
+        {" · "}
+        <a href="/feed.xml" className="hover:underline hover:text-foreground transition-colors">
+          Feed
+        </a>
+      </p>
     </div>
   );
 }
@@ -0,0 +1,48 @@
+import type { Metadata } from "next";
+import { ParetoChart } from "@/components/pareto-chart";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { getLexicalAnalysis } from "@/lib/lexical-analysis";
+import { getCachedModelMetadata } from "@/lib/model-metadata";
+import type { ParetoModel } from "@/lib/pareto";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Pareto Frontier — Open Writing Leaderboard",
+};
+
+export default async function ParetoPage() {
+  const [ratings, lexical, modelMetadata] = await Promise.all([
+    getLeaderboardRatings(),
+    getLexicalAnalysis(),
+    getCachedModelMetadata(),
+  ]);
+
+  const lexicalByModel = new Map(lexical.models.map((m) => [m.model, m.lexical_analysis]));
+  const models: ParetoModel[] = ratings
+    .filter((r): r is typeof r & { elo: number } => r.elo !== null)
+    .map((r) => {
+      const analysis = lexicalByModel.get(r.model_name);
+      return {
+        model: r.model_name,
+        elo: r.elo,
+        parameters: modelMetadata[r.model_name]?.parameters ?? null,
+        slopScore: analysis?.slop_score ?? null,
+        avgResponseLength: analysis?.avg_turn_length ?? null,
+      };
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="max-w-4xl mx-auto px-2 sm:px-0">
+        <h1 className="text-3xl font-bold tracking-tight">Pareto Frontier</h1>
+        <p className="mt-2 text-muted-foreground">
+          ELO plotted against model size, slop and verbosity. A model is on the
+          frontier when nothing smaller (or less sloppy, or terser) scores higher,
+          so the frontier shows which models are efficient rather than just good.
+        </p>
+      </div>
+      <ParetoChart models={models} />
+    </div>
+  );
+}
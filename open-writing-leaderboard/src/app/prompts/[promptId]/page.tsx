@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { SamplesPanel } from "@/components/samples-modal";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { getPromptSamples } from "@/lib/model-runs";
+import { promptsData } from "@/lib/prompts";
+
+export const dynamic = "force-dynamic";
+
+interface PromptPageProps {
+  params: Promise<{ promptId: string }>;
+}
+
+export async function generateMetadata({ params }: PromptPageProps): Promise<Metadata> {
+  const { promptId } = await params;
+  const info = promptsData[promptId];
+  return {
+    title: info
+      ? `Prompt ${promptId}: ${info.category} — Open Writing Leaderboard`
+      : "Prompts — Open Writing Leaderboard",
+  };
+}
+
+export default async function PromptPage({ params }: PromptPageProps) {
+  const { promptId } = await params;
+  const info = promptsData[promptId];
+  if (!info) {
+    notFound();
+  }
+
+  const ratings = await getLeaderboardRatings();
+  const samples = await getPromptSamples(
+    promptId,
+    ratings.map((r) => r.model_name)
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 px-2 sm:px-0">
+      <Link
+        href="/prompts"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        All prompts
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{info.category}</h1>
+        <p className="mt-2 text-muted-foreground">
+          Prompt #{promptId} · {samples.length} of {ratings.length} rated models, from
+          each model&apos;s latest completed run, best scored first
+        </p>
+      </div>
+
+      <div className="rounded-lg bg-muted/50 p-4">
+        <div className="text-xs font-medium text-muted-foreground mb-2">
+          WRITING PROMPT
+        </div>
+        <p className="text-sm italic whitespace-pre-line">{info.prompt}</p>
+      </div>
+
+      <SamplesPanel
+        samples={samples}
+        loading={false}
+        showPrompt={false}
+        emptyMessage="No rated model has a completed response to this prompt yet."
+      />
+    </div>
+  );
+}
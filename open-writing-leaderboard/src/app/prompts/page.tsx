@@ -0,0 +1,64 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { promptsData } from "@/lib/prompts";
+import { promptPagePath } from "@/lib/model-links";
+
+export const metadata: Metadata = {
+  title: "Prompts — Open Writing Leaderboard",
+};
+
+export default function PromptsPage() {
+  const prompts = Object.entries(promptsData).sort(
+    ([a], [b]) => Number(a) - Number(b) || a.localeCompare(b)
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 px-2 sm:px-0">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Prompts</h1>
+        <p className="mt-2 text-muted-foreground">
+          Every writing prompt in the benchmark. Open one to read how each rated
+          model responded to it, best scored first.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="hidden sm:table-cell">Prompt</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prompts.map(([id, info]) => (
+                <TableRow key={id}>
+                  <TableCell className="font-mono text-muted-foreground">{id}</TableCell>
+                  <TableCell className="font-medium whitespace-normal">
+                    <Link href={promptPagePath(id)} className="hover:underline">
+                      {info.category}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="hidden sm:table-cell whitespace-normal text-sm text-muted-foreground">
+                    <span className="line-clamp-2">{info.prompt}</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { selectClassName } from "@/components/ui/native-select";
+import { SearchHitResponse } from "@/components/search-hit-response";
+import { getLeaderboardRatings } from "@/lib/leaderboard";
+import { getPromptCategories, promptsData } from "@/lib/prompts";
+import { modelPagePath, promptPagePath, samplePath } from "@/lib/model-links";
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  parseSearchFilters,
+  searchResponses,
+  SearchQueryError,
+  SearchUnavailableError,
+  type SearchFilters,
+  type SearchResults,
+} from "@/lib/search";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Search Responses — Open Writing Leaderboard",
+};
+
+interface SearchPageProps {
+  searchParams: Promise<Record<string, string | undefined>>;
+}
+
+function Snippet({ snippet }: { snippet: string }) {
+  // Split on the highlight markers; odd parts are matched terms
+  const parts = snippet.split(new RegExp(`${HIGHLIGHT_START}|${HIGHLIGHT_END}`));
+  return (
+    <p className="text-sm leading-relaxed">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/30">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function SearchForm({ query, filters, models }: { query: string; filters: SearchFilters; models: string[] }) {
+  const promptIds = Object.keys(promptsData).sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+  return (
+    <form action="/search" className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          name="q"
+          defaultValue={query}
+          placeholder={'tapestry, "a testament to", -dragon'}
+          aria-label="Search query"
+          required
+        />
+        <Button type="submit">Search</Button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <select name="model" aria-label="Model" defaultValue={filters.model ?? ""} className={selectClassName}>
+          <option value="">All models</option>
+          {models.map((m) => (
+            <option key={m} value={m}>{m}</option>
+          ))}
+        </select>
+        <select name="category" aria-label="Category" defaultValue={filters.category ?? ""} className={selectClassName}>
+          <option value="">All categories</option>
+          {getPromptCategories().map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <select name="prompt" aria-label="Prompt" defaultValue={filters.promptId ?? ""} className={selectClassName}>
+          <option value="">All prompts</option>
+          {promptIds.map((id) => (
+            <option key={id} value={id}>#{id} — {promptsData[id].category}</option>
+          ))}
+        </select>
+      </div>
+    </form>
+  );
+}
+
+function pageHref(params: Record<string, string | undefined>, page: number): string {
+  const next = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value && key !== "page") next.set(key, value);
+  }
+  if (page > 1) next.set("page", String(page));
+  return `/search?${next.toString()}`;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const params = await searchParams;
+  const query = params.q?.trim() ?? "";
+  const filters = parseSearchFilters(new URLSearchParams(params as Record<string, string>));
+  const page = Math.max(1, parseInt(params.page ?? "1", 10) || 1);
+  const ratings = await getLeaderboardRatings();
+
+  let results: SearchResults | null = null;
+  let error: string | null = null;
+  if (query) {
+    try {
+      results = await searchResponses(query, filters, page);
+    } catch (e) {
+      if (!(e instanceof SearchQueryError || e instanceof SearchUnavailableError)) throw e;
+      error = e.message;
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 px-2 sm:px-0">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Search Responses</h1>
+        <p className="mt-2 text-muted-foreground">
+          Find words and phrases across every completed response. Use quotes for
+          exact phrases, OR for alternatives and a leading minus to exclude a word.
+        </p>
+      </div>
+
+      <SearchForm query={query} filters={filters} models={ratings.map((r) => r.model_name)} />
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {results && (
+        <div className="space-y-3">
+          {results.hits.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No responses match this search.</p>
+          ) : (
+            results.hits.map((hit) => (
+              <Card key={hit.taskId}>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                    <Link href={modelPagePath(hit.model)} className="font-medium break-all hover:underline">
+                      {hit.model}
+                    </Link>
+                    <Link
+                      href={promptPagePath(hit.promptId)}
+                      className="text-muted-foreground hover:underline hover:text-foreground"
+                    >
+                      #{hit.promptId} {hit.category ?? ""}
+                    </Link>
+                    {hit.iterationIndex > 1 && (
+                      <span className="text-xs text-muted-foreground">iteration {hit.iterationIndex}</span>
+                    )}
+                    {!hit.latestRun && <Badge variant="outline">Earlier run</Badge>}
+                  </div>
+                  <Snippet snippet={hit.snippet} />
+                  {hit.latestRun ? (
+                    <Link
+                      href={samplePath(hit.model, hit.taskId)}
+                      className="inline-block text-xs text-muted-foreground hover:underline hover:text-foreground"
+                    >
+                      Open sample →
+                    </Link>
+                  ) : (
+                    <SearchHitResponse taskId={hit.taskId} />
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {(results.page > 1 || results.hasMore) && (
+            <div className="flex justify-between">
+              {results.page > 1 ? (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={pageHref(params, results.page - 1)}>Previous</Link>
+                </Button>
+              ) : (
+                <span />
+              )}
+              {results.hasMore && (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={pageHref(params, results.page + 1)}>Next</Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import { selectClassName } from "@/components/ui/native-select";
 import { Loader2, AlertCircle, CheckCircle2, Settings, Lightbulb, ArrowRight, Server, Wrench, Clock } from "lucide-react";
 import {
   vllmConfigurableSchema,
@@ -40,8 +41,6 @@ interface SubmissionResponse {
   resetAt?: string;
 }
 
-const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background text-foreground px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
-
 function SubmissionCoverPage({ onContinue }: { onContinue: () => void }) {
   return (
     <Card>
@@ -14,31 +14,11 @@ import {
   RubricBarChart,
   ProficiencyData,
 } from "./proficiencies-chart";
-
-interface LexicalAnalysis {
-  slop_words_per_1k: number;
-  slop_trigrams_per_1k: number;
-  not_x_but_y_per_1k_chars: number;
-  slop_score: number;
-  vocab_level: number;
-  avg_sentence_length: number;
-  avg_paragraph_length: number;
-  mattr_500: number;
-  avg_turn_length: number;
-  num_turns: number;
-  total_words: number;
-  total_chars: number;
-}
-
-interface ModelData {
-  model: string;
-  lexical_analysis: LexicalAnalysis;
-}
-
-interface LexicalResponse {
-  models: ModelData[];
-  ranges: Record<string, { min: number; max: number }>;
-}
+import type {
+  LexicalAnalysis,
+  LexicalAnalysisOverview,
+  ModelLexicalAnalysis,
+} from "@/lib/lexical-analysis";
 
 interface ProficienciesResponse {
   proficiencies: Record<string, ProficiencyData>;
@@ -46,6 +26,8 @@ interface ProficienciesResponse {
 
 interface AnalysisModalProps {
   modelName: string | null;
+  // Archived season slug; analysis then comes from the runs it was rated on
+  season?: string | null;
   onClose: () => void;
 }
 
@@ -131,8 +113,8 @@ const DISPLAY_METRICS: (keyof LexicalAnalysis)[] = [
   "avg_turn_length",
 ];
 
-export function AnalysisModal({ modelName, onClose }: AnalysisModalProps) {
-  const [data, setData] = useState<LexicalResponse | null>(null);
+export function AnalysisModal({ modelName, season = null, onClose }: AnalysisModalProps) {
+  const [data, setData] = useState<LexicalAnalysisOverview | null>(null);
   const [proficiencies, setProficiencies] = useState<ProficienciesResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [proficienciesLoading, setProficienciesLoading] = useState(false);
@@ -141,10 +123,11 @@ export function AnalysisModal({ modelName, onClose }: AnalysisModalProps) {
     if (modelName) {
       setLoading(true);
       setProficienciesLoading(true);
+      const query = season ? `?season=${encodeURIComponent(season)}` : "";
 
-      fetch("/api/lexical-analysis")
+      fetch(`/api/lexical-analysis${query}`)
         .then((res) => res.json())
-        .then((responseData: LexicalResponse) => {
+        .then((responseData: LexicalAnalysisOverview) => {
           setData(responseData);
           setLoading(false);
         })
@@ -152,7 +135,7 @@ export function AnalysisModal({ modelName, onClose }: AnalysisModalProps) {
           setLoading(false);
         });
 
-      fetch("/api/proficiencies")
+      fetch(`/api/proficiencies${query}`)
         .then((res) => res.json())
         .then((responseData: ProficienciesResponse) => {
           setProficiencies(responseData);
@@ -162,22 +145,10 @@ export function AnalysisModal({ modelName, onClose }: AnalysisModalProps) {
           setProficienciesLoading(false);
         });
     }
-  }, [modelName]);
+  }, [modelName, season]);
 
-  const selectedModel = data?.models.find((m) => m.model === modelName);
   const proficiencyData = modelName ? proficiencies?.proficiencies[modelName] : null;
 
-  const getNormalizedWidth = (metric: keyof LexicalAnalysis, value: number) => {
-    const range = data?.ranges[metric];
-    if (!range || range.max === range.min) return 50;
-    return ((value - range.min) / (range.max - range.min)) * 100;
-  };
-
-  const formatValue = (metric: keyof LexicalAnalysis, value: number) => {
-    const decimals = METRIC_CONFIG[metric].decimals ?? 2;
-    return value.toFixed(decimals);
-  };
-
   const isLoading = loading || proficienciesLoading;
 
   return (
@@ -199,134 +170,171 @@ export function AnalysisModal({ modelName, onClose }: AnalysisModalProps) {
             </div>
           ) : (
             <div className="p-4">
-              {/* Large screens: 3 columns */}
-              <div className="hidden xl:grid xl:grid-cols-3 xl:gap-6">
-                {/* Column 1: Rubric Scores */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h3>
-                  {proficiencyData ? (
-                    <RubricBarChart data={proficiencyData} />
-                  ) : (
-                    <div className="text-sm text-muted-foreground py-4">
-                      No rubric data available.
-                    </div>
-                  )}
-                </div>
+              {modelName && (
+                <AnalysisContent
+                  modelName={modelName}
+                  lexical={data}
+                  proficiency={proficiencyData}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
-                {/* Column 2: Proficiencies */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-medium text-muted-foreground">PROFICIENCIES</h3>
-                  {proficiencyData ? (
-                    <div className="space-y-4">
-                      <ProficienciesRadarChart data={proficiencyData} />
-                      <StrengthsWeaknessesList data={proficiencyData} initialCount={5} />
-                    </div>
-                  ) : (
-                    <div className="text-sm text-muted-foreground py-4">
-                      No proficiency data available.
-                    </div>
-                  )}
-                </div>
+interface AnalysisContentProps {
+  modelName: string;
+  lexical: LexicalAnalysisOverview | null;
+  proficiency: ProficiencyData | null | undefined;
+}
 
-                {/* Column 3: Lexical Analysis */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-medium text-muted-foreground">LEXICAL ANALYSIS</h3>
-                  <LexicalAnalysisSection
-                    selectedModel={selectedModel}
-                    data={data}
-                    getNormalizedWidth={getNormalizedWidth}
-                    formatValue={formatValue}
-                  />
-                </div>
-              </div>
+/**
+ * Rubric scores, proficiencies and lexical metrics for one model, laid out
+ * responsively. Shared by the modal and the model page.
+ */
+export function AnalysisContent({ modelName, lexical, proficiency: proficiencyData }: AnalysisContentProps) {
+  const selectedModel = lexical?.models.find((m) => m.model === modelName);
 
-              {/* Medium screens: 2 columns */}
-              <div className="hidden md:grid md:grid-cols-2 md:gap-6 xl:hidden">
-                {/* Column 1: Proficiencies + Rubric */}
-                <div className="space-y-6">
-                  <div className="space-y-4">
-                    <h3 className="text-sm font-medium text-muted-foreground">PROFICIENCIES</h3>
-                    {proficiencyData ? (
-                      <div className="space-y-4">
-                        <ProficienciesRadarChart data={proficiencyData} />
-                        <StrengthsWeaknessesList data={proficiencyData} initialCount={3} />
-                      </div>
-                    ) : (
-                      <div className="text-sm text-muted-foreground py-4">
-                        No proficiency data available.
-                      </div>
-                    )}
-                  </div>
+  const getNormalizedWidth = (metric: keyof LexicalAnalysis, value: number) => {
+    const range = lexical?.ranges[metric];
+    if (!range || range.max === range.min) return 50;
+    return ((value - range.min) / (range.max - range.min)) * 100;
+  };
 
-                  <div className="space-y-4 border-t pt-6">
-                    <h3 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h3>
-                    {proficiencyData ? (
-                      <RubricBarChart data={proficiencyData} compact />
-                    ) : (
-                      <div className="text-sm text-muted-foreground py-4">
-                        No rubric data available.
-                      </div>
-                    )}
-                  </div>
-                </div>
+  const formatValue = (metric: keyof LexicalAnalysis, value: number) => {
+    const decimals = METRIC_CONFIG[metric].decimals ?? 2;
+    return value.toFixed(decimals);
+  };
 
-                {/* Column 2: Lexical Analysis */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-medium text-muted-foreground">LEXICAL ANALYSIS</h3>
-                  <LexicalAnalysisSection
-                    selectedModel={selectedModel}
-                    data={data}
-                    getNormalizedWidth={getNormalizedWidth}
-                    formatValue={formatValue}
-                  />
-                </div>
-              </div>
+  return (
+    <>
+      {/* Large screens: 3 columns */}
+      <div className="hidden xl:grid xl:grid-cols-3 xl:gap-6">
+        {/* Column 1: Rubric Scores */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h3>
+          {proficiencyData ? (
+            <RubricBarChart data={proficiencyData} />
+          ) : (
+            <div className="text-sm text-muted-foreground py-4">
+              No rubric data available.
+            </div>
+          )}
+        </div>
 
-              {/* Small screens: 1 column */}
-              <div className="md:hidden space-y-6">
-                {/* Proficiencies */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-medium text-muted-foreground">PROFICIENCIES</h3>
-                  {proficiencyData ? (
-                    <div className="space-y-4">
-                      <ProficienciesRadarChart data={proficiencyData} />
-                      <StrengthsWeaknessesList data={proficiencyData} initialCount={3} />
-                    </div>
-                  ) : (
-                    <div className="text-sm text-muted-foreground py-4">
-                      No proficiency data available.
-                    </div>
-                  )}
-                </div>
+        {/* Column 2: Proficiencies */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-muted-foreground">PROFICIENCIES</h3>
+          {proficiencyData ? (
+            <div className="space-y-4">
+              <ProficienciesRadarChart data={proficiencyData} />
+              <StrengthsWeaknessesList data={proficiencyData} initialCount={5} />
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground py-4">
+              No proficiency data available.
+            </div>
+          )}
+        </div>
 
-                {/* Lexical Analysis */}
-                <div className="space-y-4 border-t pt-6">
-                  <h3 className="text-sm font-medium text-muted-foreground">LEXICAL ANALYSIS</h3>
-                  <LexicalAnalysisSection
-                    selectedModel={selectedModel}
-                    data={data}
-                    getNormalizedWidth={getNormalizedWidth}
-                    formatValue={formatValue}
-                  />
-                </div>
+        {/* Column 3: Lexical Analysis */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-muted-foreground">LEXICAL ANALYSIS</h3>
+          <LexicalAnalysisSection
+            selectedModel={selectedModel}
+            data={lexical}
+            getNormalizedWidth={getNormalizedWidth}
+            formatValue={formatValue}
+          />
+        </div>
+      </div>
 
-                {/* Rubric Scores */}
-                <div className="space-y-4 border-t pt-6">
-                  <h3 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h3>
-                  {proficiencyData ? (
-                    <RubricBarChart data={proficiencyData} compact />
-                  ) : (
-                    <div className="text-sm text-muted-foreground py-4">
-                      No rubric data available.
-                    </div>
-                  )}
-                </div>
+      {/* Medium screens: 2 columns */}
+      <div className="hidden md:grid md:grid-cols-2 md:gap-6 xl:hidden">
+        {/* Column 1: Proficiencies + Rubric */}
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-muted-foreground">PROFICIENCIES</h3>
+            {proficiencyData ? (
+              <div className="space-y-4">
+                <ProficienciesRadarChart data={proficiencyData} />
+                <StrengthsWeaknessesList data={proficiencyData} initialCount={3} />
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground py-4">
+                No proficiency data available.
               </div>
+            )}
+          </div>
+
+          <div className="space-y-4 border-t pt-6">
+            <h3 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h3>
+            {proficiencyData ? (
+              <RubricBarChart data={proficiencyData} compact />
+            ) : (
+              <div className="text-sm text-muted-foreground py-4">
+                No rubric data available.
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Column 2: Lexical Analysis */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-muted-foreground">LEXICAL ANALYSIS</h3>
+          <LexicalAnalysisSection
+            selectedModel={selectedModel}
+            data={lexical}
+            getNormalizedWidth={getNormalizedWidth}
+            formatValue={formatValue}
+          />
+        </div>
+      </div>
+
+      {/* Small screens: 1 column */}
+      <div className="md:hidden space-y-6">
+        {/* Proficiencies */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-muted-foreground">PROFICIENCIES</h3>
+          {proficiencyData ? (
+            <div className="space-y-4">
+              <ProficienciesRadarChart data={proficiencyData} />
+              <StrengthsWeaknessesList data={proficiencyData} initialCount={3} />
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground py-4">
+              No proficiency data available.
             </div>
           )}
         </div>
-      </DialogContent>
-    </Dialog>
+
+        {/* Lexical Analysis */}
+        <div className="space-y-4 border-t pt-6">
+          <h3 className="text-sm font-medium text-muted-foreground">LEXICAL ANALYSIS</h3>
+          <LexicalAnalysisSection
+            selectedModel={selectedModel}
+            data={lexical}
+            getNormalizedWidth={getNormalizedWidth}
+            formatValue={formatValue}
+          />
+        </div>
+
+        {/* Rubric Scores */}
+        <div className="space-y-4 border-t pt-6">
+          <h3 className="text-sm font-medium text-muted-foreground">RUBRIC SCORES</h3>
+          {proficiencyData ? (
+            <RubricBarChart data={proficiencyData} compact />
+          ) : (
+            <div className="text-sm text-muted-foreground py-4">
+              No rubric data available.
+            </div>
+          )}
+        </div>
+      </div>
+    </>
   );
 }
 
@@ -336,8 +344,8 @@ function LexicalAnalysisSection({
   getNormalizedWidth,
   formatValue,
 }: {
-  selectedModel: ModelData | undefined;
-  data: LexicalResponse | null;
+  selectedModel: ModelLexicalAnalysis | undefined;
+  data: LexicalAnalysisOverview | null;
   getNormalizedWidth: (metric: keyof LexicalAnalysis, value: number) => number;
   formatValue: (metric: keyof LexicalAnalysis, value: number) => string;
 }) {
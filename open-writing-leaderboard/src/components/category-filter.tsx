@@ -0,0 +1,93 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { Filter, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface CategoryFilterProps {
+  categories: string[];
+  selected: string[];
+}
+
+export function CategoryFilter({ categories, selected }: CategoryFilterProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Keep any other query params (e.g. future view options) intact
+  const applySelection = (next: string[]) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("category");
+    for (const category of next) {
+      params.append("category", category);
+    }
+    const query = params.toString();
+    router.push(query ? `/?${query}` : "/");
+  };
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    applySelection(
+      checked ? [...selected, category] : selected.filter((c) => c !== category)
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-2 sm:px-0 mb-4">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 cursor-pointer">
+            <Filter className="h-4 w-4" />
+            Categories
+            {selected.length > 0 && (
+              <span className="text-xs text-muted-foreground">({selected.length})</span>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72 max-h-96">
+          <DropdownMenuLabel>Rank using prompts from</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {categories.map((category) => (
+            <DropdownMenuCheckboxItem
+              key={category}
+              checked={selected.includes(category)}
+              onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {category}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {selected.map((category) => (
+        <button
+          key={category}
+          type="button"
+          onClick={() => toggleCategory(category, false)}
+          className="inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs hover:bg-accent/80 transition-colors cursor-pointer"
+          title="Remove category"
+        >
+          {category}
+          <X className="h-3 w-3" />
+        </button>
+      ))}
+
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => applySelection([])}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
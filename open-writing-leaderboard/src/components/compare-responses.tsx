@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Skeleton } from "@/components/ui/skeleton";
+import { selectClassName } from "@/components/ui/native-select";
+import { JudgeResponsesDisplay, type SampleResponse } from "@/components/samples-modal";
+import { ResponseDiff } from "@/components/response-diff";
+import type { MatchupDetail } from "@/lib/matchups";
+
+export interface ComparePrompt {
+  promptId: string;
+  category: string | null;
+  prompt: string | null;
+  // From model A's side; null when the pair was never judged on this prompt
+  fractionForA: number | null;
+  taskA: number | null;
+  taskB: number | null;
+}
+
+interface LoadedPrompt {
+  promptId: string;
+  responseA: SampleResponse | null;
+  responseB: SampleResponse | null;
+  details: MatchupDetail[];
+}
+
+interface CompareResponsesProps {
+  modelA: string;
+  modelB: string;
+  prompts: ComparePrompt[];
+}
+
+async function fetchResponse(taskId: number | null): Promise<SampleResponse | null> {
+  if (taskId === null) return null;
+  const res = await fetch(`/api/samples/response/${taskId}`);
+  return res.ok ? res.json() : null;
+}
+
+function missingMessage(taskId: number | null): string {
+  return taskId === null ? "No sample for this prompt." : "Failed to load response.";
+}
+
+/**
+ * Both models' responses to one prompt side by side, followed by the judges'
+ * pairwise reasoning. The selected prompt is kept in ?prompt=.
+ */
+export function CompareResponses({ modelA, modelB, prompts }: CompareResponsesProps) {
+  const searchParams = useSearchParams();
+  const promptParam = searchParams.get("prompt");
+  const selected = prompts.find((p) => p.promptId === promptParam) ?? prompts[0];
+  const [loaded, setLoaded] = useState<LoadedPrompt | null>(null);
+
+  const promptId = selected?.promptId;
+  const taskA = selected?.taskA ?? null;
+  const taskB = selected?.taskB ?? null;
+
+  useEffect(() => {
+    if (!promptId) return;
+
+    const matchupsUrl =
+      `/api/matchups/${encodeURIComponent(modelA)}` +
+      `?opponent=${encodeURIComponent(modelB)}&item_id=${encodeURIComponent(promptId)}&limit=100`;
+
+    Promise.all([
+      fetchResponse(taskA),
+      fetchResponse(taskB),
+      fetch(matchupsUrl).then((res) => res.json()),
+    ])
+      .then(([responseA, responseB, matchups]) => {
+        setLoaded({ promptId, responseA, responseB, details: matchups.details || [] });
+      })
+      .catch(() => {
+        setLoaded({ promptId, responseA: null, responseB: null, details: [] });
+      });
+  }, [modelA, modelB, promptId, taskA, taskB]);
+
+  if (!selected) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        Neither model has samples to compare.
+      </div>
+    );
+  }
+
+  const handlePromptChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("prompt", value);
+    window.history.replaceState(null, "", `?${params.toString()}`);
+  };
+
+  const isLoading = loaded?.promptId !== selected.promptId;
+
+  return (
+    <div className="space-y-4">
+      <select
+        aria-label="Prompt"
+        className={selectClassName}
+        value={selected.promptId}
+        onChange={(e) => handlePromptChange(e.target.value)}
+      >
+        {prompts.map((p) => (
+          <option key={p.promptId} value={p.promptId}>
+            #{p.promptId} — {p.category ?? "Uncategorised"}
+            {p.fractionForA !== null ? ` (${(p.fractionForA * 100).toFixed(0)}% for A)` : ""}
+          </option>
+        ))}
+      </select>
+
+      {selected.prompt && (
+        <div className="rounded-lg bg-muted/50 p-4">
+          <div className="text-xs font-medium text-muted-foreground mb-2">
+            WRITING PROMPT
+          </div>
+          <p className="text-sm italic">{selected.prompt}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+          <Skeleton className="h-4 w-5/6" />
+        </div>
+      ) : (
+        <ResponseDiff
+          sides={[
+            { label: "A", name: modelA, response: loaded.responseA, missingMessage: missingMessage(selected.taskA) },
+            { label: "B", name: modelB, response: loaded.responseB, missingMessage: missingMessage(selected.taskB) },
+          ]}
+        />
+      )}
+
+      <div className="space-y-3 border-t pt-4">
+        <h3 className="text-sm font-medium text-muted-foreground">JUDGE REASONING</h3>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : loaded && loaded.details.length > 0 ? (
+          loaded.details.map((detail) => (
+            <div key={detail.id} className="text-xs">
+              <JudgeResponsesDisplay
+                responses={detail.judgeResponses}
+                viewedModelName={modelA}
+                opponentModelName={modelB}
+                isViewedModelA={detail.isModelA}
+              />
+            </div>
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            These models were not compared on this prompt.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
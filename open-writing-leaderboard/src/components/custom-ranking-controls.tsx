@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  MAX_WEIGHT,
+  RANKING_PRESETS,
+  serializeWeights,
+  type RankingWeights,
+} from "@/lib/custom-ranking";
+
+interface CustomRankingControlsProps {
+  dimensions: string[];
+  // Active weights from the URL, or null when ranking by Elo
+  weights: RankingWeights | null;
+  presetId: string | null;
+}
+
+export function CustomRankingControls({ dimensions, weights, presetId }: CustomRankingControlsProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [open, setOpen] = useState(weights !== null && presetId === null);
+  // Sliders start from the active weights, or equal weights
+  const [draft, setDraft] = useState<RankingWeights>(() =>
+    Object.fromEntries(dimensions.map((d) => [d, weights ? weights[d] ?? 0 : 1]))
+  );
+
+  const navigate = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("weights");
+    params.delete("preset");
+    update(params);
+    const query = params.toString();
+    router.push(query ? `/?${query}` : "/");
+  };
+
+  const applyDraft = () => {
+    const encoded = serializeWeights(draft);
+    navigate((params) => {
+      if (encoded) params.set("weights", encoded);
+    });
+  };
+
+  const hasDraftWeight = Object.values(draft).some((w) => w > 0);
+
+  return (
+    <div className="flex flex-col items-center gap-3 mb-4">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Button
+          variant={weights ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setOpen(!open)}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          Custom ranking
+        </Button>
+        {RANKING_PRESETS.map((preset) => (
+          <Button
+            key={preset.id}
+            variant={presetId === preset.id ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => navigate((params) => params.set("preset", preset.id))}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        {weights && (
+          <Button variant="ghost" size="sm" onClick={() => navigate(() => {})}>
+            <X className="h-4 w-4" />
+            Rank by ELO
+          </Button>
+        )}
+      </div>
+
+      {open && (
+        <div className="w-full max-w-3xl rounded-lg border bg-card p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+            {dimensions.map((dimension) => (
+              <label key={dimension} className="flex items-center gap-3 text-sm">
+                <span className="w-44 shrink-0 truncate" title={dimension}>
+                  {dimension}
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  step={1}
+                  value={draft[dimension] ?? 0}
+                  onChange={(e) =>
+                    setDraft({ ...draft, [dimension]: Number(e.target.value) })
+                  }
+                  className="flex-1 accent-primary cursor-pointer"
+                />
+                <span className="w-4 text-right font-mono text-xs text-muted-foreground">
+                  {draft[dimension] ?? 0}
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Models are ranked by the weighted mean of their rubric scores (0–10).
+              The URL can be shared.
+            </p>
+            <Button size="sm" onClick={applyDraft} disabled={!hasDraftWeight}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
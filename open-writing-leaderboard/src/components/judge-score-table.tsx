@@ -0,0 +1,104 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { compareJudgeScores, judgeDisagreement } from "@/lib/sample-scores";
+
+// Variance (0–20 scale) from which a dimension counts as contested: judges
+// about two points apart on average
+const CONTESTED_VARIANCE = 4;
+
+interface JudgeScoreTableProps {
+  judges: { judge_model_name: string; judge_scores: Record<string, unknown> | null }[];
+}
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+/**
+ * Each judge's rubric scores for one sample side by side, with the variance
+ * between judges per dimension. Contested dimensions are highlighted.
+ */
+export function JudgeScoreTable({ judges }: JudgeScoreTableProps) {
+  const rows = compareJudgeScores(judges);
+  const disagreement = judgeDisagreement(rows);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No rubric scores recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Dimension</TableHead>
+            {judges.map((judge, i) => (
+              <TableHead
+                key={i}
+                className="text-right max-w-32 truncate"
+                title={judge.judge_model_name}
+              >
+                {judge.judge_model_name}
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Variance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => {
+            const contested = row.variance >= CONTESTED_VARIANCE;
+            return (
+              <TableRow key={row.dimension} className={contested ? "bg-amber-500/10" : undefined}>
+                <TableCell className="capitalize whitespace-normal">
+                  {row.dimension.replace(/_/g, " ")}
+                </TableCell>
+                {row.scores.map((score, i) => (
+                  <TableCell key={i} className="text-right font-mono">
+                    {score === null ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : (
+                      score.toFixed(score % 1 === 0 ? 0 : 1)
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell
+                  className={`text-right font-mono ${
+                    contested ? "font-medium text-amber-600 dark:text-amber-400" : "text-muted-foreground"
+                  }`}
+                >
+                  {row.variance.toFixed(1)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Mean</TableCell>
+            {judges.map((_, i) => {
+              const judgeMean = mean(rows.map((row) => row.scores[i]));
+              return (
+                <TableCell key={i} className="text-right font-mono">
+                  {judgeMean?.toFixed(1) ?? "—"}
+                </TableCell>
+              );
+            })}
+            <TableCell className="text-right font-mono">{disagreement?.toFixed(1) ?? "—"}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Scores out of 20. Variance is across the judges that scored each dimension; the
+        footer shows each judge&apos;s mean and the sample&apos;s mean variance.
+      </p>
+    </div>
+  );
+}
@@ -1,8 +1,20 @@
 "use client";
 
 import { useState } from "react";
-import { FileText, BarChart3, Info, Trash2 } from "lucide-react";
-import { useRouter } from "next/navigation";
+import {
+  FileText,
+  BarChart3,
+  Info,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronRight,
+  CornerDownRight,
+} from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import {
   Table,
   TableBody,
@@ -16,6 +28,27 @@ import { Badge } from "@/components/ui/badge";
 import { SamplesModal } from "@/components/samples-modal";
 import { AnalysisModal } from "@/components/analysis-modal";
 import { RunDetailsModal } from "@/components/run-details-modal";
+import { CategoryFilter } from "@/components/category-filter";
+import { CustomRankingControls } from "@/components/custom-ranking-controls";
+import { ModelMetadataFilters } from "@/components/model-metadata-filters";
+import { SeasonSelector } from "@/components/season-selector";
+import { computeRankRanges } from "@/lib/rank-ranges";
+import { modelPagePath } from "@/lib/model-links";
+import type { RankMovement } from "@/lib/leaderboard-diff";
+import { serializeWeights, type RankingWeights } from "@/lib/custom-ranking";
+import {
+  METADATA_FILTER_PARAMS,
+  distinctMetadataValues,
+  formatParameterCount,
+  hasMetadataFilters,
+  matchesMetadataFilters,
+  parseMetadataFilters,
+  type MetadataFilters,
+  type MetadataSortKey,
+  type ModelMetadata,
+} from "@/lib/model-filters";
+import { buildLineage, groupByFamily, type Lineage } from "@/lib/lineage";
+import type { SeasonSummary } from "@/lib/seasons";
 import {
   ScoreBarPaletteSelector,
   scoreBarPalettes,
@@ -27,20 +60,127 @@ interface Rating {
   elo_norm: number | null;
   ci_low: number | null;
   ci_high: number | null;
+  movement?: RankMovement;
+  // Weighted rubric score (0-10) when a custom ranking is active
+  composite?: number | null;
+  metadata?: ModelMetadata | null;
+}
+
+interface SortState {
+  key: MetadataSortKey;
+  ascending: boolean;
+}
+
+interface BoardRow {
+  rating: Rating;
+  // Position on the full board, which ranks are computed from
+  index: number;
+  // Set when grouping by lineage and the model's family has several members
+  family?: { key: string; size: number; isHead: boolean };
+}
+
+/**
+ * Order rows by a column. Models missing the value always sort last.
+ */
+function compareRows(a: BoardRow, b: BoardRow, { key, ascending }: SortState): number {
+  if (key === "rank") return ascending ? a.index - b.index : b.index - a.index;
+
+  const valueA = a.rating.metadata?.[key] ?? null;
+  const valueB = b.rating.metadata?.[key] ?? null;
+  if (valueA === null || valueB === null) {
+    return valueA === null ? (valueB === null ? a.index - b.index : 1) : -1;
+  }
+  const order =
+    typeof valueA === "number" && typeof valueB === "number"
+      ? valueA - valueB
+      : String(valueA).localeCompare(String(valueB));
+  return (ascending ? order : -order) || a.index - b.index;
 }
 
 interface LeaderboardProps {
   ratings: Rating[];
   isAdmin?: boolean;
+  // ISO date of the board that movement is measured against
+  movementSince?: string;
+  categories?: string[];
+  selectedCategories?: string[];
+  // Rubric dimensions available for custom ranking
+  rankingDimensions?: string[];
+  // Active custom ranking; ratings arrive sorted by composite score
+  rankingWeights?: RankingWeights | null;
+  rankingPresetId?: string | null;
+  seasons?: SeasonSummary[];
+  // Archived season on display; the board is read-only
+  season?: SeasonSummary | null;
+  // The run each model was rated on in that season, by model name
+  seasonRuns?: Record<string, string>;
 }
 
-export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
+export function Leaderboard({
+  ratings,
+  isAdmin,
+  movementSince,
+  categories = [],
+  selectedCategories = [],
+  rankingDimensions = [],
+  rankingWeights = null,
+  rankingPresetId = null,
+  seasons = [],
+  season = null,
+  seasonRuns = {},
+}: LeaderboardProps) {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [samplesModalModel, setSamplesModalModel] = useState<string | null>(null);
   const [analysisModalModel, setAnalysisModalModel] = useState<string | null>(null);
   const [runDetailsModalModel, setRunDetailsModalModel] = useState<string | null>(null);
   const [deletingModel, setDeletingModel] = useState<string | null>(null);
   const [paletteId, setPaletteId] = useState("purple-to-pink");
+  const [sort, setSort] = useState<SortState>({ key: "rank", ascending: true });
+
+  const [expandedFamilies, setExpandedFamilies] = useState<Set<string>>(new Set());
+
+  // Filters and grouping live in the URL so views can be shared, but are
+  // applied client-side without a server round trip
+  const replaceQuery = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams.toString());
+    update(params);
+    const query = params.toString();
+    window.history.replaceState(null, "", query ? `?${query}` : window.location.pathname);
+  };
+
+  const metadataFilters = parseMetadataFilters(searchParams);
+  const setMetadataFilters = (next: MetadataFilters) =>
+    replaceQuery((params) => {
+      for (const [field, param] of Object.entries(METADATA_FILTER_PARAMS)) {
+        const value = next[field as keyof MetadataFilters];
+        if (value === null) params.delete(param);
+        else params.set(param, String(value));
+      }
+    });
+
+  const groupByLineage = searchParams.get("group") === "lineage";
+  const setGroupByLineage = (grouped: boolean) =>
+    replaceQuery((params) => {
+      if (grouped) params.set("group", "lineage");
+      else params.delete("group");
+    });
+
+  const toggleFamily = (key: string) => {
+    const next = new Set(expandedFamilies);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpandedFamilies(next);
+  };
+
+  const toggleSort = (key: MetadataSortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, ascending: !current.ascending }
+        // Bigger models first; text columns A-Z
+        : { key, ascending: key !== "parameters" }
+    );
+  };
 
   const palette = scoreBarPalettes.find((p) => p.id === paletteId) ?? scoreBarPalettes[0];
 
@@ -70,15 +210,71 @@ export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
     }
   };
 
-  const maxElo = Math.max(...ratings.map((r) => r.elo ?? 0));
-  const minElo = Math.min(...ratings.map((r) => r.elo ?? 0));
+  // Scale bars over the full CI span so whiskers fit inside the track
+  const maxElo = Math.max(...ratings.map((r) => r.ci_high ?? r.elo ?? 0));
+  const minElo = Math.min(...ratings.map((r) => r.ci_low ?? r.elo ?? 0));
   const eloRange = maxElo - minElo || 1;
 
   const getEloBarWidth = (elo: number | null) => {
     if (elo === null) return 0;
-    return ((elo - minElo) / eloRange) * 100;
+    return Math.min(100, Math.max(0, ((elo - minElo) / eloRange) * 100));
   };
 
+  const rankRanges = computeRankRanges(ratings);
+  // Archived seasons are read-only
+  const canDelete = isAdmin && !season;
+  const isCustomRanking = rankingWeights !== null;
+
+  const composites = ratings
+    .map((r) => r.composite)
+    .filter((c): c is number => c !== null && c !== undefined);
+  const maxComposite = Math.max(...composites);
+  const minComposite = Math.min(...composites);
+
+  const getCompositeBarWidth = (composite: number | null | undefined) => {
+    if (composite === null || composite === undefined) return 0;
+    // Keep the lowest score visible as a sliver
+    return 5 + ((composite - minComposite) / (maxComposite - minComposite || 1)) * 95;
+  };
+
+  const allMetadata = ratings.map((r) => r.metadata);
+  const hasMetadata = allMetadata.some((m) => m);
+  const lineage = buildLineage(ratings);
+  const sortedRows: BoardRow[] = ratings
+    .map((rating, index) => ({ rating, index }))
+    .filter(({ rating }) => matchesMetadataFilters(rating.metadata, metadataFilters))
+    .sort((a, b) => compareRows(a, b, sort));
+
+  // A family shows as its best-placed member, expandable to the rest
+  const rows: BoardRow[] = groupByLineage
+    ? groupByFamily(sortedRows, (row) => lineage.get(row.rating.model_name)?.family ?? null).flatMap(
+        (group) => {
+          if (group.length < 2) return group;
+          const key = lineage.get(group[0].rating.model_name)!.family.toLowerCase();
+          const members = expandedFamilies.has(key) ? group : group.slice(0, 1);
+          return members.map((row, i) => ({ ...row, family: { key, size: group.length, isHead: i === 0 } }));
+        }
+      )
+    : sortedRows;
+  const visibleModels = groupByLineage ? sortedRows.length : rows.length;
+
+  const sortableHead = (key: MetadataSortKey, label: React.ReactNode, className: string, title?: string) => (
+    <TableHead className={className} title={title}>
+      <button
+        type="button"
+        onClick={() => toggleSort(key)}
+        className="inline-flex items-center gap-1 cursor-pointer hover:text-foreground transition-colors"
+      >
+        {label}
+        {sort.key === key ? (
+          sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+        ) : (
+          <ArrowUpDown className="h-3 w-3 opacity-40" />
+        )}
+      </button>
+    </TableHead>
+  );
+
   const getRankBadgeVariant = (rank: number) => {
     if (rank === 1) return "default";
     if (rank <= 3) return "secondary";
@@ -89,34 +285,149 @@ export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
     <>
       {/* <ScoreBarPaletteSelector value={paletteId} onChange={setPaletteId} /> */}
 
-      <p className="text-center text-sm text-muted-foreground mb-4">
-        [BETA] Leaderboard will reset at launch
-      </p>
+      {season ? (
+        <p className="text-center text-sm text-muted-foreground mb-4">
+          Archived season <span className="font-medium text-foreground">{season.name}</span>, archived on{" "}
+          {new Date(season.archivedAt).toLocaleDateString()} · {season.models} models, {season.comparisons} comparisons ·
+          read-only
+        </p>
+      ) : (
+        <p className="text-center text-sm text-muted-foreground mb-4">
+          [BETA] Leaderboard will reset at launch
+        </p>
+      )}
+      <SeasonSelector seasons={seasons} selected={season?.slug ?? null} isAdmin={isAdmin} />
+      {rankingDimensions.length > 0 && !season && (
+        <CustomRankingControls
+          key={rankingWeights ? serializeWeights(rankingWeights) : "elo"}
+          dimensions={rankingDimensions}
+          weights={rankingWeights}
+          presetId={rankingPresetId}
+        />
+      )}
+      {categories.length > 0 && !isCustomRanking && (
+        <CategoryFilter categories={categories} selected={selectedCategories} />
+      )}
+      {hasMetadata && (
+        <ModelMetadataFilters
+          filters={metadataFilters}
+          licenses={distinctMetadataValues(allMetadata, "license")}
+          architectures={distinctMetadataValues(allMetadata, "architecture")}
+          quantizations={distinctMetadataValues(allMetadata, "quantization")}
+          onChange={setMetadataFilters}
+          groupByLineage={groupByLineage}
+          onGroupByLineageChange={setGroupByLineage}
+        />
+      )}
+      {hasMetadataFilters(metadataFilters) && (
+        <p className="text-center text-xs text-muted-foreground mb-4">
+          Showing {visibleModels} of {ratings.length} models; ranks are positions on the full board
+        </p>
+      )}
+      {isCustomRanking && (
+        <p className="text-center text-xs text-muted-foreground mb-4">
+          Ranked by weighted rubric score:{" "}
+          {Object.entries(rankingWeights)
+            .map(([dimension, weight]) => `${dimension} ×${weight}`)
+            .join(", ")}
+        </p>
+      )}
+      {selectedCategories.length > 0 && (
+        <p className="text-center text-xs text-muted-foreground mb-4">
+          Ratings re-solved from comparisons on {selectedCategories.length === 1 ? "this category" : "these categories"} only
+          {ratings.length === 0 && " — no comparisons found"}
+        </p>
+      )}
+      {movementSince && (
+        <p className="text-center text-xs text-muted-foreground mb-4">
+          Changes shown since {new Date(movementSince).toLocaleDateString(undefined, {
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+          })}
+        </p>
+      )}
       <div className="rounded-lg border-2 border-violet-400/50 dark:border-violet-400/70 bg-card shadow-[0_0_15px_rgba(167,139,250,0.15)] dark:shadow-[0_0_15px_rgba(167,139,250,0.3)]">
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead className="w-16"><span className="hidden sm:inline">Rank</span></TableHead>
+              {sortableHead("rank", <span className="hidden sm:inline">Rank</span>, "w-16")}
               <TableHead className="min-w-[133px] w-[60%]">Model</TableHead>
+              {isCustomRanking && (
+                <TableHead className="min-w-[70px] w-[30%]">Custom Score</TableHead>
+              )}
               <TableHead className="min-w-[70px] w-[40%]">ELO Score</TableHead>
+              {!isCustomRanking && (
+                <TableHead className="hidden md:table-cell w-24 text-center" title="Best and worst plausible rank given overlapping 95% confidence intervals">
+                  Rank Range
+                </TableHead>
+              )}
+              {hasMetadata && (
+                <>
+                  {sortableHead("parameters", "Params", "hidden md:table-cell w-20", "Total parameter count")}
+                  {sortableHead("architecture", "Arch", "hidden xl:table-cell w-24")}
+                  {sortableHead("baseModel", "Base Model", "hidden xl:table-cell w-40")}
+                  {sortableHead("license", "License", "hidden lg:table-cell w-28")}
+                  {sortableHead("quantization", "Quant", "hidden lg:table-cell w-20", "Quantisation; blank for full-precision weights")}
+                </>
+              )}
               <TableHead className="w-10 sm:w-24 text-center"><span className="hidden sm:inline">Samples</span></TableHead>
               <TableHead className="w-10 sm:w-24 text-center"><span className="hidden sm:inline">Analysis</span></TableHead>
-              {isAdmin && <TableHead className="w-10 sm:w-16 text-center"></TableHead>}
+              {canDelete && <TableHead className="w-10 sm:w-16 text-center"></TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
-            {ratings.map((rating, index) => {
-              const rank = index + 1;
+            {rows.map(({ rating, index, family }) => {
+              const rankRange = rankRanges[index];
+              // Custom rankings have no intervals, so rank is the board position
+              const tied = !isCustomRanking && rankRange.tied;
+              const rank = isCustomRanking ? index + 1 : rankRange.best;
+              const hasCi = rating.ci_low !== null && rating.ci_high !== null;
+              const modelLineage = groupByLineage ? lineage.get(rating.model_name) : undefined;
+              const familyExpanded = family ? expandedFamilies.has(family.key) : false;
               return (
                 <TableRow key={rating.model_name}>
                   <TableCell className="pr-0 sm:pr-2">
-                    <Badge variant={getRankBadgeVariant(rank)} className="font-mono">
+                    <Badge
+                      variant={getRankBadgeVariant(rank)}
+                      className="font-mono"
+                      title={
+                        tied
+                          ? `Statistically tied at #${rank} (position ${index + 1})`
+                          : `Position ${index + 1}`
+                      }
+                    >
+                      {tied && "="}
                       {rank}
                     </Badge>
+                    {rating.movement && <RankMovementIndicator movement={rating.movement} />}
                   </TableCell>
-                  <TableCell className="font-medium whitespace-normal break-all">
+                  <TableCell className={`font-medium whitespace-normal break-all ${family && !family.isHead ? "pl-6" : ""}`}>
                     <span className="inline-flex items-center gap-1">
-                      {rating.model_name}
+                      {family?.isHead && (
+                        <button
+                          type="button"
+                          onClick={() => toggleFamily(family.key)}
+                          className="inline-flex items-center justify-center h-5 w-5 rounded hover:bg-accent/80 transition-colors cursor-pointer flex-shrink-0"
+                          title={familyExpanded ? "Collapse family" : `Show all ${family.size} models in this family`}
+                        >
+                          {familyExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                      )}
+                      {family && !family.isHead && (
+                        <CornerDownRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <Link
+                        href={modelPagePath(rating.model_name, undefined, seasonRuns[rating.model_name])}
+                        className="hover:underline"
+                      >
+                        {rating.model_name}
+                      </Link>
+                      {rating.movement?.isNew && (
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                          New
+                        </Badge>
+                      )}
                       <button
                         type="button"
                         onClick={() => setRunDetailsModalModel(rating.model_name)}
@@ -126,7 +437,29 @@ export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
                         <Info className="h-4 w-4 opacity-50 hover:opacity-100" />
                       </button>
                     </span>
+                    {modelLineage && (family?.isHead || modelLineage.delta !== null) && (
+                      <LineageSummary
+                        lineage={modelLineage}
+                        familySize={family?.isHead ? family.size : null}
+                        familyElo={ratings.find((r) => r.model_name === modelLineage.family)?.elo ?? null}
+                      />
+                    )}
                   </TableCell>
+                  {isCustomRanking && (
+                    <TableCell>
+                      <div className="flex items-center gap-0.5 sm:gap-3">
+                        <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                          <div
+                            className="absolute inset-y-0 left-0 h-full rounded-full bg-primary"
+                            style={{ width: `${getCompositeBarWidth(rating.composite)}%` }}
+                          />
+                        </div>
+                        <span className="w-10 sm:w-12 text-right font-mono text-sm">
+                          {rating.composite?.toFixed(2) ?? "—"}
+                        </span>
+                      </div>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <div className="flex items-center gap-0.5 sm:gap-3">
                       <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-muted">
@@ -140,12 +473,53 @@ export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
                             backgroundPosition: 'left',
                           }}
                         />
+                        {hasCi && (
+                          <div
+                            className="absolute inset-y-0 flex items-center"
+                            style={{
+                              left: `${getEloBarWidth(rating.ci_low)}%`,
+                              width: `${getEloBarWidth(rating.ci_high) - getEloBarWidth(rating.ci_low)}%`,
+                            }}
+                          >
+                            <div className="h-full w-px bg-foreground/70" />
+                            <div className="h-px flex-1 bg-foreground/70" />
+                            <div className="h-full w-px bg-foreground/70" />
+                          </div>
+                        )}
                       </div>
-                      <span className="w-12 sm:w-16 text-right font-mono text-sm">
+                      <span
+                        className="w-12 sm:w-16 text-right font-mono text-sm"
+                        title={
+                          hasCi
+                            ? `95% CI: ${rating.ci_low!.toFixed(0)} – ${rating.ci_high!.toFixed(0)}`
+                            : undefined
+                        }
+                      >
                         {rating.elo?.toFixed(0) ?? "—"}
                       </span>
+                      {rating.movement?.eloDelta != null && Math.round(rating.movement.eloDelta) !== 0 && (
+                        <span
+                          className={`hidden sm:inline w-10 font-mono text-xs ${
+                            rating.movement.eloDelta > 0
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-red-600 dark:text-red-400"
+                          }`}
+                          title="Elo change"
+                        >
+                          {rating.movement.eloDelta > 0 ? "+" : ""}
+                          {rating.movement.eloDelta.toFixed(0)}
+                        </span>
+                      )}
                     </div>
                   </TableCell>
+                  {!isCustomRanking && (
+                    <TableCell className="hidden md:table-cell text-center font-mono text-sm text-muted-foreground">
+                      {rankRange.best === rankRange.worst
+                        ? rankRange.best
+                        : `${rankRange.best}–${rankRange.worst}`}
+                    </TableCell>
+                  )}
+                  {hasMetadata && <MetadataCells metadata={rating.metadata} />}
                   <TableCell className="text-center px-0 sm:px-2">
                     <Button
                       variant="ghost"
@@ -168,7 +542,7 @@ export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
                       <BarChart3 className="h-4 w-4" />
                     </Button>
                   </TableCell>
-                  {isAdmin && (
+                  {canDelete && (
                     <TableCell className="text-center px-0 sm:px-2">
                       <Button
                         variant="ghost"
@@ -191,18 +565,88 @@ export function Leaderboard({ ratings, isAdmin }: LeaderboardProps) {
 
       <SamplesModal
         modelName={samplesModalModel}
+        defaultRunKey={samplesModalModel ? seasonRuns[samplesModalModel] : null}
         onClose={() => setSamplesModalModel(null)}
       />
 
       <AnalysisModal
         modelName={analysisModalModel}
+        season={season?.slug}
         onClose={() => setAnalysisModalModel(null)}
       />
 
       <RunDetailsModal
         modelName={runDetailsModalModel}
+        runKey={runDetailsModalModel ? seasonRuns[runDetailsModalModel] : null}
         onClose={() => setRunDetailsModalModel(null)}
       />
     </>
   );
 }
+
+function LineageSummary({
+  lineage,
+  familySize,
+  familyElo,
+}: {
+  lineage: Lineage;
+  // Set on the row that heads a family group
+  familySize: number | null;
+  familyElo: number | null;
+}) {
+  return (
+    <div className="mt-0.5 flex flex-wrap gap-x-2 text-xs font-normal text-muted-foreground">
+      {familySize !== null && (
+        <span>
+          {lineage.family} family · {familySize} models
+          {familyElo !== null && ` · base ELO ${familyElo.toFixed(0)}`}
+        </span>
+      )}
+      {lineage.delta !== null && (
+        <span
+          className={`font-mono ${
+            lineage.delta > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+          }`}
+          title={`Compared with ${lineage.ratedBase} (ELO ${lineage.baseElo?.toFixed(0)})`}
+        >
+          {lineage.delta > 0 ? "+" : ""}
+          {lineage.delta.toFixed(0)} vs base
+        </span>
+      )}
+    </div>
+  );
+}
+
+function MetadataCells({ metadata }: { metadata?: ModelMetadata | null }) {
+  const cellClassName = "text-sm text-muted-foreground whitespace-normal break-all";
+  return (
+    <>
+      <TableCell className="hidden md:table-cell font-mono text-sm text-muted-foreground">
+        {formatParameterCount(metadata?.parameters ?? null)}
+      </TableCell>
+      <TableCell className={`hidden xl:table-cell ${cellClassName}`}>{metadata?.architecture ?? "—"}</TableCell>
+      <TableCell className={`hidden xl:table-cell ${cellClassName}`}>{metadata?.baseModel ?? "—"}</TableCell>
+      <TableCell className={`hidden lg:table-cell ${cellClassName}`}>{metadata?.license ?? "—"}</TableCell>
+      <TableCell className={`hidden lg:table-cell font-mono ${cellClassName}`}>{metadata?.quantization ?? ""}</TableCell>
+    </>
+  );
+}
+
+function RankMovementIndicator({ movement }: { movement: RankMovement }) {
+  if (movement.rankDelta === null || movement.rankDelta === 0) return null;
+
+  const movedUp = movement.rankDelta > 0;
+  const Arrow = movedUp ? ArrowUp : ArrowDown;
+
+  return (
+    <span
+      className={`inline-flex items-center ml-1 font-mono text-xs ${
+        movedUp ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+      }`}
+      title={`${movedUp ? "Up" : "Down"} ${Math.abs(movement.rankDelta)} place${Math.abs(movement.rankDelta) === 1 ? "" : "s"}`}
+    >
+      <Arrow className="h-3 w-3" />
+      {Math.abs(movement.rankDelta)}
+    </span>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { GitFork, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { compactSelectClassName } from "@/components/ui/native-select";
+import {
+  FULL_PRECISION,
+  PARAMETER_SIZE_LIMITS,
+  hasMetadataFilters,
+  type MetadataFilters,
+} from "@/lib/model-filters";
+
+const EMPTY_FILTERS: MetadataFilters = {
+  maxParams: null,
+  license: null,
+  architecture: null,
+  quantization: null,
+};
+
+interface ModelMetadataFiltersProps {
+  filters: MetadataFilters;
+  licenses: string[];
+  architectures: string[];
+  quantizations: string[];
+  onChange: (filters: MetadataFilters) => void;
+  groupByLineage: boolean;
+  onGroupByLineageChange: (grouped: boolean) => void;
+}
+
+export function ModelMetadataFilters({
+  filters,
+  licenses,
+  architectures,
+  quantizations,
+  onChange,
+  groupByLineage,
+  onGroupByLineageChange,
+}: ModelMetadataFiltersProps) {
+  const update = (patch: Partial<MetadataFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-2 sm:px-0 mb-4">
+      <select
+        aria-label="Maximum size"
+        value={filters.maxParams ?? ""}
+        onChange={(e) => update({ maxParams: e.target.value ? Number(e.target.value) : null })}
+        className={compactSelectClassName}
+      >
+        <option value="">Any size</option>
+        {PARAMETER_SIZE_LIMITS.map((limit) => (
+          <option key={limit} value={limit}>≤ {limit}B</option>
+        ))}
+      </select>
+      <select
+        aria-label="License"
+        value={filters.license ?? ""}
+        onChange={(e) => update({ license: e.target.value || null })}
+        className={compactSelectClassName}
+      >
+        <option value="">Any license</option>
+        {licenses.map((license) => (
+          <option key={license} value={license}>{license}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Architecture"
+        value={filters.architecture ?? ""}
+        onChange={(e) => update({ architecture: e.target.value || null })}
+        className={compactSelectClassName}
+      >
+        <option value="">Any architecture</option>
+        {architectures.map((architecture) => (
+          <option key={architecture} value={architecture}>{architecture}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Quantisation"
+        value={filters.quantization ?? ""}
+        onChange={(e) => update({ quantization: e.target.value || null })}
+        className={compactSelectClassName}
+      >
+        <option value="">Any precision</option>
+        <option value={FULL_PRECISION}>Full precision</option>
+        {quantizations.map((quantization) => (
+          <option key={quantization} value={quantization}>{quantization}</option>
+        ))}
+      </select>
+      <Button
+        variant={groupByLineage ? "secondary" : "outline"}
+        size="sm"
+        className="gap-2 cursor-pointer"
+        onClick={() => onGroupByLineageChange(!groupByLineage)}
+        title="Collapse finetunes and merges under their base model"
+      >
+        <GitFork className="h-4 w-4" />
+        Group by base model
+      </Button>
+      {hasMetadataFilters(filters) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1 cursor-pointer text-muted-foreground"
+          onClick={() => onChange(EMPTY_FILTERS)}
+        >
+          <X className="h-3 w-3" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useSearchParams } from "next/navigation";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  isModelPageTab,
+  modelPagePath,
+  type ModelPageTab,
+} from "@/lib/model-links";
+
+interface ModelTabsProps {
+  modelName: string;
+  overview: ReactNode;
+  analysis: ReactNode;
+  samples: ReactNode;
+  matchups: ReactNode;
+  matchupCount: number;
+}
+
+export function ModelTabs({
+  modelName,
+  overview,
+  analysis,
+  samples,
+  matchups,
+  matchupCount,
+}: ModelTabsProps) {
+  const searchParams = useSearchParams();
+  const tabParam = searchParams.get("tab");
+  const tab: ModelPageTab = isModelPageTab(tabParam) ? tabParam : "overview";
+
+  const handleTabChange = (value: string) => {
+    if (!isModelPageTab(value)) return;
+    // Update the URL without a server round-trip; every tab is already rendered.
+    // A selected run applies to every tab, so it's kept
+    const run = searchParams.get("run");
+    const path = modelPagePath(modelName, value);
+    const runQuery = run ? `${path.includes("?") ? "&" : "?"}run=${encodeURIComponent(run)}` : "";
+    window.history.replaceState(null, "", `${path}${runQuery}`);
+  };
+
+  return (
+    <Tabs value={tab} onValueChange={handleTabChange}>
+      <TabsList>
+        <TabsTrigger value="overview">Overview</TabsTrigger>
+        <TabsTrigger value="analysis">Analysis</TabsTrigger>
+        <TabsTrigger value="samples">Samples</TabsTrigger>
+        <TabsTrigger value="matchups">
+          ELO Matchups
+          {matchupCount > 0 && (
+            <span className="ml-1.5 text-xs text-muted-foreground">
+              ({matchupCount})
+            </span>
+          )}
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="overview" className="mt-6">{overview}</TabsContent>
+      <TabsContent value="analysis" className="mt-6">{analysis}</TabsContent>
+      <TabsContent value="samples" className="mt-2">{samples}</TabsContent>
+      <TabsContent value="matchups" className="mt-4">{matchups}</TabsContent>
+    </Tabs>
+  );
+}
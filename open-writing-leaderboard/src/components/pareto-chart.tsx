@@ -0,0 +1,186 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  CartesianGrid,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  PARETO_AXES,
+  isParetoAxis,
+  paretoFrontier,
+  paretoPoints,
+  type ParetoAxis,
+  type ParetoModel,
+  type ParetoPoint,
+} from "@/lib/pareto";
+import { formatParameterCount } from "@/lib/model-filters";
+import { modelPagePath } from "@/lib/model-links";
+
+const FRONTIER_COLOR = "oklch(0.65 0.2 40)";
+const POINT_COLOR = "oklch(0.6 0.2 260)";
+
+function formatAxisValue(axis: ParetoAxis, value: number): string {
+  if (axis === "parameters") return formatParameterCount(value);
+  if (axis === "slopScore") return value.toFixed(1);
+  return value.toFixed(0);
+}
+
+export function ParetoChart({ models }: { models: ParetoModel[] }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const axisParam = searchParams.get("x");
+  const axis: ParetoAxis = isParetoAxis(axisParam) ? axisParam : "parameters";
+  const { label, description, logScale } = PARETO_AXES[axis];
+
+  const points = paretoPoints(models, axis);
+  const frontier = paretoFrontier(points);
+  const onFrontier = new Set(frontier.map((p) => p.model));
+  const others = points.filter((p) => !onFrontier.has(p.model));
+
+  const handleAxisChange = (value: string) => {
+    if (!isParetoAxis(value)) return;
+    // Every axis is computed client-side, so skip the server round trip
+    window.history.replaceState(null, "", value === "parameters" ? "/pareto" : `/pareto?x=${value}`);
+  };
+
+  const openModel = (point: unknown) => {
+    const model = (point as { payload?: ParetoPoint }).payload?.model;
+    if (model) router.push(modelPagePath(model));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 px-2 sm:px-0">
+      <Tabs value={axis} onValueChange={handleAxisChange}>
+        <TabsList>
+          {(Object.keys(PARETO_AXES) as ParetoAxis[]).map((key) => (
+            <TabsTrigger key={key} value={key}>
+              ELO vs {PARETO_AXES[key].label.toLowerCase()}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {description}. {points.length} of {models.length} rated models have a value.
+            Highlighted models make up the frontier; click a point to open the model.
+          </p>
+          {points.length === 0 ? (
+            <p className="py-16 text-center text-sm text-muted-foreground">No data for this axis yet.</p>
+          ) : (
+            <div className="h-[460px] w-full text-muted-foreground">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                  <CartesianGrid stroke="currentColor" strokeOpacity={0.15} />
+                  <XAxis
+                    type="number"
+                    dataKey="x"
+                    name={label}
+                    scale={logScale ? "log" : "auto"}
+                    domain={["auto", "auto"]}
+                    tickFormatter={(value: number) => formatAxisValue(axis, value)}
+                    tick={{ fontSize: 11, fill: "currentColor" }}
+                    label={{ value: label, position: "insideBottom", offset: -10, fill: "currentColor", fontSize: 12 }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    name="ELO"
+                    domain={["auto", "auto"]}
+                    tick={{ fontSize: 11, fill: "currentColor" }}
+                    width={50}
+                  />
+                  <Tooltip
+                    cursor={{ strokeDasharray: "3 3" }}
+                    content={({ payload }) => {
+                      if (!payload || payload.length === 0) return null;
+                      const point = payload[0].payload as ParetoPoint;
+                      return (
+                        <div className="bg-popover border rounded-md px-3 py-2 text-sm shadow-md">
+                          <div className="font-medium break-all">{point.model}</div>
+                          <div className="text-muted-foreground">
+                            ELO {point.y.toFixed(0)} · {label} {formatAxisValue(axis, point.x)}
+                          </div>
+                          {onFrontier.has(point.model) && (
+                            <div className="text-xs" style={{ color: FRONTIER_COLOR }}>On the frontier</div>
+                          )}
+                        </div>
+                      );
+                    }}
+                  />
+                  <Scatter
+                    name="Models"
+                    data={others}
+                    fill={POINT_COLOR}
+                    fillOpacity={0.5}
+                    onClick={openModel}
+                    className="cursor-pointer"
+                  />
+                  <Scatter
+                    name="Frontier"
+                    data={frontier}
+                    fill={FRONTIER_COLOR}
+                    line={{ stroke: FRONTIER_COLOR, strokeWidth: 1.5 }}
+                    lineType="joint"
+                    onClick={openModel}
+                    className="cursor-pointer"
+                  />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {frontier.length > 0 && (
+        <div>
+          <h2 className="text-sm font-medium text-muted-foreground mb-3">FRONTIER MODELS</h2>
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">{label}</TableHead>
+                    <TableHead className="text-right">ELO</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {frontier.map((point) => (
+                    <TableRow key={point.model}>
+                      <TableCell className="font-medium whitespace-normal break-all">
+                        <Link href={modelPagePath(point.model)} className="hover:underline">
+                          {point.model}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatAxisValue(axis, point.x)}</TableCell>
+                      <TableCell className="text-right font-mono">{point.y.toFixed(0)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
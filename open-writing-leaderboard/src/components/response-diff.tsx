@@ -0,0 +1,148 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ChevronDown, Highlighter } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import { Button } from "@/components/ui/button";
+import type { SampleResponse } from "@/components/samples-modal";
+import {
+  alignSections,
+  countWords,
+  highlightShared,
+  sharedPhrases,
+  type AlignedSection,
+} from "@/lib/response-diff";
+
+export interface DiffSide {
+  // Short label used in word counts, e.g. "A"
+  label: string;
+  name: string;
+  response: SampleResponse | null;
+  // Shown in place of sections this side doesn't have
+  missingMessage: string;
+}
+
+function SectionText({ text, shared }: { text: string; shared: Set<string> | null }) {
+  if (!shared) {
+    return (
+      <div className="text-sm leading-relaxed [&>p]:mb-4 [&>p:last-child]:mb-0">
+        <ReactMarkdown>{text || "No response"}</ReactMarkdown>
+      </div>
+    );
+  }
+  return (
+    <div className="text-sm leading-relaxed whitespace-pre-wrap">
+      {highlightShared(text, shared).map((segment, i) =>
+        segment.shared ? (
+          <mark key={i} className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/30">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </div>
+  );
+}
+
+function SectionRow({
+  section,
+  sides,
+  shared,
+}: {
+  section: AlignedSection;
+  sides: [DiffSide, DiffSide];
+  shared: Set<string> | null;
+}) {
+  // Planning is long and rarely what readers are after, as in SampleContent
+  const [expanded, setExpanded] = useState(section.key !== "planning");
+  const texts = [section.a, section.b];
+
+  return (
+    <div className="border rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-3 text-left hover:bg-muted/50 transition-colors cursor-pointer"
+      >
+        <span className="text-sm font-semibold">{section.label}</span>
+        <span className="flex items-center gap-3 text-xs text-muted-foreground font-mono">
+          {texts.map((text, i) => (
+            <span key={i}>
+              {sides[i].label}: {text === null ? "—" : `${countWords(text).toLocaleString()} words`}
+            </span>
+          ))}
+          <ChevronDown className={`h-4 w-4 transition-transform ${expanded ? "rotate-180" : ""}`} />
+        </span>
+      </button>
+      {expanded && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 border-t p-4">
+          {texts.map((text, i) => (
+            <div key={i} className="min-w-0 space-y-2">
+              <div className="text-xs font-medium text-muted-foreground break-all lg:hidden">
+                {sides[i].label}: {sides[i].name}
+              </div>
+              {text === null ? (
+                <div className="text-sm text-muted-foreground">{sides[i].missingMessage}</div>
+              ) : (
+                <SectionText text={text} shared={shared} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Two responses to the same prompt read side by side, with the planning turn
+ * and each chapter aligned in one row so both columns scroll together.
+ */
+export function ResponseDiff({ sides }: { sides: [DiffSide, DiffSide] }) {
+  const [highlight, setHighlight] = useState(false);
+  const responseA = sides[0].response;
+  const responseB = sides[1].response;
+  const sections = useMemo(() => alignSections(responseA, responseB), [responseA, responseB]);
+  // Phrases are matched across the whole texts, since a chapter often echoes
+  // a different chapter of the other response
+  const shared = useMemo(() => {
+    if (!highlight) return null;
+    const fullText = (side: "a" | "b") => sections.map((s) => s[side] ?? "").join("\n\n");
+    return sharedPhrases(fullText("a"), fullText("b"));
+  }, [highlight, sections]);
+
+  if (sections.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        {sides[0].missingMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="hidden lg:grid grid-cols-2 gap-4 flex-1 text-xs font-medium text-muted-foreground">
+          {sides.map((side) => (
+            <span key={side.label} className="break-all">
+              {side.label}: {side.name}
+            </span>
+          ))}
+        </div>
+        <Button
+          variant={highlight ? "secondary" : "outline"}
+          size="sm"
+          className="gap-2 cursor-pointer"
+          onClick={() => setHighlight(!highlight)}
+        >
+          <Highlighter className="h-4 w-4" />
+          {highlight ? "Hide shared phrases" : "Highlight shared phrases"}
+        </Button>
+      </div>
+      {sections.map((section) => (
+        <SectionRow key={section.key} section={section} sides={sides} shared={shared} />
+      ))}
+    </div>
+  );
+}
@@ -1,44 +1,24 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { Clock, Calendar, Timer, Server, Settings2 } from "lucide-react";
+import Image from "next/image";
+import { Clock, Calendar, Timer, Server, Settings2, Copy, Check, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { badgePath, modelPagePath } from "@/lib/model-links";
 import { vllmRequiredParams } from "@/lib/vllm-params-required-schema";
-
-interface VllmArg {
-  arg: string;
-  value: string | number | null;
-}
-
-interface RunConfig {
-  submission_id?: string;
-  params?: {
-    modelType?: string;
-    vllmParams?: {
-      args?: VllmArg[];
-      envVars?: Record<string, string>;
-    };
-    judges?: string[];
-    modelId?: string;
-  };
-}
-
-interface RunDetails {
-  runKey: string;
-  startTime: string | null;
-  endTime: string | null;
-  durationMinutes: number | null;
-  runConfig: RunConfig;
-}
+import type { RunDetails } from "@/lib/model-runs";
 
 interface RunDetailsModalProps {
   modelName: string | null;
+  // Run to show; the most recent when omitted
+  runKey?: string | null;
   onClose: () => void;
 }
 
@@ -66,7 +46,7 @@ function formatDateTime(isoString: string): string {
   });
 }
 
-export function RunDetailsModal({ modelName, onClose }: RunDetailsModalProps) {
+export function RunDetailsModal({ modelName, runKey = null, onClose }: RunDetailsModalProps) {
   const [details, setDetails] = useState<RunDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -77,7 +57,8 @@ export function RunDetailsModal({ modelName, onClose }: RunDetailsModalProps) {
       setDetails(null);
       setError(null);
 
-      fetch(`/api/run-details/${encodeURIComponent(modelName)}`)
+      const query = runKey ? `?runKey=${encodeURIComponent(runKey)}` : "";
+      fetch(`/api/run-details/${encodeURIComponent(modelName)}${query}`)
         .then((res) => {
           if (!res.ok) {
             throw new Error("Failed to load run details");
@@ -93,10 +74,7 @@ export function RunDetailsModal({ modelName, onClose }: RunDetailsModalProps) {
           setLoading(false);
         });
     }
-  }, [modelName]);
-
-  const vllmParams = details?.runConfig?.params?.vllmParams;
-  const judges = details?.runConfig?.params?.judges ?? [];
+  }, [modelName, runKey]);
 
   return (
     <Dialog open={modelName !== null} onOpenChange={(open) => !open && onClose()}>
@@ -116,163 +94,223 @@ export function RunDetailsModal({ modelName, onClose }: RunDetailsModalProps) {
             <div className="py-8 text-center text-muted-foreground">
               {error}
             </div>
-          ) : details ? (
+          ) : details && modelName ? (
             <div className="space-y-6">
-              {/* Run timing info */}
-              <div className="space-y-3">
-                <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                  <Clock className="h-4 w-4" />
-                  Run Information
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {details.startTime && (
-                    <div className="bg-muted/50 rounded-lg p-3">
-                      <div className="text-xs text-muted-foreground flex items-center gap-1.5 mb-1">
-                        <Calendar className="h-3 w-3" />
-                        Started
-                      </div>
-                      <div className="text-sm font-medium">
-                        {formatDateTime(details.startTime)}
-                      </div>
-                    </div>
-                  )}
-                  {details.durationMinutes !== null && (
-                    <div className="bg-muted/50 rounded-lg p-3">
-                      <div className="text-xs text-muted-foreground flex items-center gap-1.5 mb-1">
-                        <Timer className="h-3 w-3" />
-                        Duration
-                      </div>
-                      <div className="text-sm font-medium">
-                        {formatDuration(details.durationMinutes)}
-                      </div>
-                    </div>
-                  )}
-                </div>
+              <RunDetailsContent details={details} />
+              <BadgeSection modelName={modelName} />
+            </div>
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Preview of the model's rank badge with a button that copies README markdown
+ * linking back to the model page.
+ */
+function BadgeSection({ modelName }: { modelName: string }) {
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+
+  const copyMarkdown = () => {
+    const origin = window.location.origin;
+    const markdown = `[![Open Writing Leaderboard](${origin}${badgePath(modelName)})](${origin}${modelPagePath(modelName)})`;
+    // The clipboard API is missing in insecure contexts and can be denied
+    (navigator.clipboard?.writeText(markdown) ?? Promise.reject(new Error("Clipboard unavailable")))
+      .then(() => setCopyState("copied"))
+      .catch(() => setCopyState("failed"))
+      .finally(() => setTimeout(() => setCopyState("idle"), 2000));
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-muted-foreground">Badge</h3>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Image
+          src={badgePath(modelName)}
+          alt={`Open Writing Leaderboard rank for ${modelName}`}
+          width={0}
+          height={0}
+          unoptimized
+          className="h-5 w-auto"
+        />
+        <Button variant="outline" size="sm" onClick={copyMarkdown}>
+          {copyState === "copied" ? (
+            <Check className="h-4 w-4" />
+          ) : copyState === "failed" ? (
+            <X className="h-4 w-4" />
+          ) : (
+            <Copy className="h-4 w-4" />
+          )}
+          {copyState === "copied" ? "Copied" : copyState === "failed" ? "Copy failed" : "Copy badge markdown"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Timing, judges and non-default vLLM parameters of a run. Shared by the
+ * modal and the model page.
+ */
+export function RunDetailsContent({ details }: { details: RunDetails }) {
+  const vllmParams = details.runConfig?.params?.vllmParams;
+  const judges = details.runConfig?.params?.judges ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Run timing info */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          Run Information
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {details.startTime && (
+            <div className="bg-muted/50 rounded-lg p-3">
+              <div className="text-xs text-muted-foreground flex items-center gap-1.5 mb-1">
+                <Calendar className="h-3 w-3" />
+                Started
+              </div>
+              <div className="text-sm font-medium">
+                {formatDateTime(details.startTime)}
               </div>
+            </div>
+          )}
+          {details.durationMinutes !== null && (
+            <div className="bg-muted/50 rounded-lg p-3">
+              <div className="text-xs text-muted-foreground flex items-center gap-1.5 mb-1">
+                <Timer className="h-3 w-3" />
+                Duration
+              </div>
+              <div className="text-sm font-medium">
+                {formatDuration(details.durationMinutes)}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
 
-              {/* Judges */}
-              {judges.length > 0 && (
-                <div className="space-y-3">
-                  <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                    <Server className="h-4 w-4" />
-                    Judge Model{judges.length > 1 ? "s" : ""}
-                  </h3>
-                  <div className="flex flex-wrap gap-2">
-                    {judges.map((judge, idx) => (
-                      <span
-                        key={idx}
-                        className="inline-flex items-center px-3 py-1.5 rounded-md bg-primary/10 text-primary text-sm font-medium"
-                      >
-                        {judge}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-              )}
+      {/* Judges */}
+      {judges.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Server className="h-4 w-4" />
+            Judge Model{judges.length > 1 ? "s" : ""}
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {judges.map((judge, idx) => (
+              <span
+                key={idx}
+                className="inline-flex items-center px-3 py-1.5 rounded-md bg-primary/10 text-primary text-sm font-medium"
+              >
+                {judge}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
 
-              {/* vLLM Parameters */}
-              {(() => {
-                // Filter out required args and env vars
-                const requiredArgNames = new Set(vllmRequiredParams.args.map(a => a.arg));
-                const requiredEnvVarKeys = new Set(Object.keys(vllmRequiredParams.envVars));
+      {/* vLLM Parameters */}
+      {(() => {
+        // Filter out required args and env vars
+        const requiredArgNames = new Set(vllmRequiredParams.args.map(a => a.arg));
+        const requiredEnvVarKeys = new Set(Object.keys(vllmRequiredParams.envVars));
 
-                const filteredArgs = vllmParams?.args?.filter(
-                  (item) => !requiredArgNames.has(item.arg)
-                ) ?? [];
-                const filteredEnvVars = Object.entries(vllmParams?.envVars ?? {}).filter(
-                  ([key]) => !requiredEnvVarKeys.has(key)
-                );
+        const filteredArgs = vllmParams?.args?.filter(
+          (item) => !requiredArgNames.has(item.arg)
+        ) ?? [];
+        const filteredEnvVars = Object.entries(vllmParams?.envVars ?? {}).filter(
+          ([key]) => !requiredEnvVarKeys.has(key)
+        );
 
-                const hasCustomParams = filteredArgs.length > 0 || filteredEnvVars.length > 0;
+        const hasCustomParams = filteredArgs.length > 0 || filteredEnvVars.length > 0;
 
-                return (
-                  <div className="space-y-3">
-                    <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                      <Settings2 className="h-4 w-4" />
-                      vLLM Parameters
-                    </h3>
+        return (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <Settings2 className="h-4 w-4" />
+              vLLM Parameters
+            </h3>
 
-                    {!hasCustomParams ? (
-                      <p className="text-sm text-muted-foreground">
-                        Default vLLM parameters were used
-                      </p>
-                    ) : (
-                      <>
-                        {/* Args */}
-                        {filteredArgs.length > 0 && (
-                          <div className="bg-muted/30 rounded-lg overflow-hidden">
-                            <table className="w-full text-sm">
-                              <thead>
-                                <tr className="border-b border-border/50">
-                                  <th className="text-left px-3 py-2 text-xs font-medium text-muted-foreground">
-                                    Argument
-                                  </th>
-                                  <th className="text-left px-3 py-2 text-xs font-medium text-muted-foreground">
-                                    Value
-                                  </th>
-                                </tr>
-                              </thead>
-                              <tbody>
-                                {filteredArgs.map((item, idx) => (
-                                  <tr
-                                    key={idx}
-                                    className="border-b border-border/30 last:border-0"
-                                  >
-                                    <td className="px-3 py-2 font-mono text-xs">
-                                      {item.arg}
-                                    </td>
-                                    <td className="px-3 py-2 font-mono text-xs">
-                                      {item.value === null ? (
-                                        <span className="text-muted-foreground italic">
-                                          (flag)
-                                        </span>
-                                      ) : (
-                                        String(item.value)
-                                      )}
-                                    </td>
-                                  </tr>
-                                ))}
-                              </tbody>
-                            </table>
-                          </div>
-                        )}
+            {!hasCustomParams ? (
+              <p className="text-sm text-muted-foreground">
+                Default vLLM parameters were used
+              </p>
+            ) : (
+              <>
+                {/* Args */}
+                {filteredArgs.length > 0 && (
+                  <div className="bg-muted/30 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-border/50">
+                          <th className="text-left px-3 py-2 text-xs font-medium text-muted-foreground">
+                            Argument
+                          </th>
+                          <th className="text-left px-3 py-2 text-xs font-medium text-muted-foreground">
+                            Value
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredArgs.map((item, idx) => (
+                          <tr
+                            key={idx}
+                            className="border-b border-border/30 last:border-0"
+                          >
+                            <td className="px-3 py-2 font-mono text-xs">
+                              {item.arg}
+                            </td>
+                            <td className="px-3 py-2 font-mono text-xs">
+                              {item.value === null ? (
+                                <span className="text-muted-foreground italic">
+                                  (flag)
+                                </span>
+                              ) : (
+                                String(item.value)
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
 
-                        {/* Environment Variables */}
-                        {filteredEnvVars.length > 0 && (
-                          <div className="space-y-2">
-                            <div className="text-xs font-medium text-muted-foreground">
-                              Environment Variables
-                            </div>
-                            <div className="bg-muted/30 rounded-lg overflow-hidden">
-                              <table className="w-full text-sm">
-                                <tbody>
-                                  {filteredEnvVars.map(([key, value], idx) => (
-                                    <tr
-                                      key={idx}
-                                      className="border-b border-border/30 last:border-0"
-                                    >
-                                      <td className="px-3 py-2 font-mono text-xs">
-                                        {key}
-                                      </td>
-                                      <td className="px-3 py-2 font-mono text-xs">
-                                        {value}
-                                      </td>
-                                    </tr>
-                                  ))}
-                                </tbody>
-                              </table>
-                            </div>
-                          </div>
-                        )}
-                      </>
-                    )}
+                {/* Environment Variables */}
+                {filteredEnvVars.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="text-xs font-medium text-muted-foreground">
+                      Environment Variables
+                    </div>
+                    <div className="bg-muted/30 rounded-lg overflow-hidden">
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {filteredEnvVars.map(([key, value], idx) => (
+                            <tr
+                              key={idx}
+                              className="border-b border-border/30 last:border-0"
+                            >
+                              <td className="px-3 py-2 font-mono text-xs">
+                                {key}
+                              </td>
+                              <td className="px-3 py-2 font-mono text-xs">
+                                {value}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
                   </div>
-                );
-              })()}
-            </div>
-          ) : null}
-        </div>
-      </DialogContent>
-    </Dialog>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })()}
+    </div>
   );
 }
@@ -0,0 +1,70 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { compactSelectClassName } from "@/components/ui/native-select";
+import type { RunSummary } from "@/lib/model-runs";
+import { cn } from "@/lib/utils";
+
+interface RunSelectorProps {
+  runs: RunSummary[];
+  // Selected run; null means the most recent
+  runKey: string | null;
+  // Without a handler the selection is kept in ?run= and the page re-renders
+  onChange?: (runKey: string | null) => void;
+}
+
+function formatRunDate(isoString: string | null): string {
+  if (!isoString) return "Unknown date";
+  return new Date(isoString).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Picker for one of a model's completed runs, most recent first. Hidden when
+ * the model has only been run once.
+ */
+export function RunSelector({ runs, runKey, onChange }: RunSelectorProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  if (runs.length < 2) return null;
+
+  const handleChange = (value: string) => {
+    // The latest run is the default, so it isn't written to the URL
+    const next = value === runs[0].runKey ? null : value;
+    if (onChange) {
+      onChange(next);
+      return;
+    }
+    const params = new URLSearchParams(searchParams.toString());
+    if (next) params.set("run", next);
+    else params.delete("run");
+    params.delete("sample");
+    router.push(`?${params.toString()}`);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-xs font-medium text-muted-foreground">RUN</span>
+      <select
+        aria-label="Run"
+        className={cn(compactSelectClassName, "max-w-full")}
+        value={runKey ?? runs[0].runKey}
+        onChange={(e) => handleChange(e.target.value)}
+      >
+        {runs.map((run, i) => (
+          <option key={run.runKey} value={run.runKey} title={run.runKey}>
+            {formatRunDate(run.startTime)}
+            {i === 0 ? " (latest)" : ""}
+          </option>
+        ))}
+      </select>
+      <span className="text-xs text-muted-foreground">{runs.length} runs</span>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SampleMetrics, TextMetrics } from "@/lib/text-metrics";
+
+const COLUMNS: { key: keyof TextMetrics; label: string; title: string; decimals: number }[] = [
+  { key: "total_words", label: "Words", title: "Total words", decimals: 0 },
+  { key: "slop_score", label: "Slop", title: "Slop score (lower is better)", decimals: 1 },
+  { key: "slop_words_per_1k", label: "Words/1k", title: "Slop words per 1,000 words", decimals: 1 },
+  { key: "slop_trigrams_per_1k", label: "Trigrams/1k", title: "Slop trigrams per 1,000 words", decimals: 1 },
+  { key: "mattr_500", label: "MATTR", title: "Moving average type-token ratio (lexical diversity)", decimals: 3 },
+  { key: "vocab_level", label: "Vocab", title: "Vocabulary level (grade)", decimals: 1 },
+  { key: "avg_sentence_length", label: "Sent.", title: "Average words per sentence", decimals: 1 },
+  { key: "avg_paragraph_length", label: "Para.", title: "Average words per paragraph", decimals: 1 },
+];
+
+/**
+ * Compact summary for a sample's accordion header.
+ */
+export function SampleMetricsSummary({ metrics }: { metrics: TextMetrics }) {
+  return (
+    <span
+      className="hidden sm:inline text-xs font-mono text-muted-foreground"
+      title="Slop score · MATTR-500 · average words per sentence"
+    >
+      slop {metrics.slop_score.toFixed(1)} · MATTR {metrics.mattr_500.toFixed(2)} · {metrics.avg_sentence_length.toFixed(1)} w/s
+    </span>
+  );
+}
+
+/**
+ * Every lexical metric for a sample, overall and per chapter.
+ */
+export function SampleMetricsTable({ metrics }: { metrics: SampleMetrics }) {
+  const rows = [{ label: "Overall", metrics: metrics.overall }, ...metrics.chapters];
+  return (
+    <div className="rounded-lg border">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead></TableHead>
+            {COLUMNS.map((column) => (
+              <TableHead key={column.key} className="text-right" title={column.title}>
+                {column.label}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, i) => (
+            <TableRow key={row.label} className={i === 0 && rows.length > 1 ? "font-medium" : ""}>
+              <TableCell>{row.label}</TableCell>
+              {COLUMNS.map((column) => (
+                <TableCell key={column.key} className="text-right font-mono">
+                  {row.metrics[column.key].toFixed(column.decimals)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
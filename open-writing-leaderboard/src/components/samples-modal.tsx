@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
-import { ChevronDown, ChevronRight, Trophy } from "lucide-react";
+import { Fragment, useEffect, useMemo, useState, useRef, type ReactNode } from "react";
+import { ChevronDown, ChevronRight, ExternalLink, Highlighter, Trophy } from "lucide-react";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import {
   Dialog,
@@ -17,7 +18,18 @@ import {
 } from "@/components/ui/accordion";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
-import prompts from "@/data/prompts.json";
+import { Button } from "@/components/ui/button";
+import { promptsData } from "@/lib/prompts";
+import { getOverallScore, judgeDimensionScores } from "@/lib/sample-scores";
+import { JudgeScoreTable } from "@/components/judge-score-table";
+import { detectSlop, summarizeSlop } from "@/lib/slop-detector";
+import { SlopLegend, SlopText } from "@/components/slop-highlight";
+import { SampleMetricsSummary, SampleMetricsTable } from "@/components/sample-metrics";
+import { computeSampleMetrics, type SampleMetrics } from "@/lib/text-metrics";
+import { comparePath, modelPagePath, promptPagePath } from "@/lib/model-links";
+import type { MatchupDetail, MatchupSummary } from "@/lib/matchups";
+import type { RunSummary, SampleSummary } from "@/lib/model-runs";
+import { RunSelector } from "@/components/run-selector";
 
 interface Turn {
   turn_type: "planning" | "chapter";
@@ -28,14 +40,12 @@ interface Turn {
   chapter_number?: number | null;
 }
 
-interface Sample {
-  id: number;
-  prompt_id: string;
-  iteration_index: number;
-  aggregated_scores: Record<string, number> | null;
+export interface Sample extends SampleSummary {
+  // Set when listing several models' responses to one prompt
+  model_name?: string;
 }
 
-interface SampleResponse {
+export interface SampleResponse {
   model_response: string | null;
   model_responses: Turn[] | null;
 }
@@ -47,86 +57,157 @@ interface JudgeResult {
   raw_judge_text: string | null;
 }
 
-interface MatchupSummary {
-  opponent: string;
-  matchupCount: number;
-  winsForModel: number;
-  winsForOpponent: number;
-  avgFractionForModel: number;
-}
-
-interface MatchupDetail {
-  id: number;
-  item_id: string;
-  isModelA: boolean;
-  fractionForModel: number | null;
-  plusForModel: number | null;
-  plusForOpponent: number | null;
-  judgeResponses: unknown;
-}
-
 interface SamplesModalProps {
   modelName: string | null;
+  // Run to open on, e.g. an archived season's; the most recent when omitted
+  defaultRunKey?: string | null;
   onClose: () => void;
 }
 
-const promptsData = prompts as Record<string, { category: string; prompt: string }>;
+export function SamplesModal({ modelName, defaultRunKey = null, onClose }: SamplesModalProps) {
+  // Results are tagged with the model they were fetched for, so loading is
+  // derived from whether they match the current model
+  const [loadedSamples, setLoadedSamples] = useState<{
+    modelName: string;
+    runKey: string | null;
+    samples: Sample[];
+    runs: RunSummary[];
+  } | null>(null);
+  // Run picked in the selector (null for the most recent), else the default
+  const [selectedRun, setSelectedRun] = useState<{ modelName: string; runKey: string | null } | null>(null);
+  const runKey = selectedRun?.modelName === modelName ? selectedRun.runKey : defaultRunKey;
+  const [loadedMatchups, setLoadedMatchups] = useState<{ modelName: string; summaries: MatchupSummary[] } | null>(null);
+
+  useEffect(() => {
+    if (!modelName) return;
+
+    const query = runKey ? `?runKey=${encodeURIComponent(runKey)}` : "";
+    fetch(`/api/samples/${encodeURIComponent(modelName)}${query}`)
+      .then((res) => res.json())
+      .then((data) => setLoadedSamples({ modelName, runKey, samples: data.samples || [], runs: data.runs || [] }))
+      .catch(() => setLoadedSamples({ modelName, runKey, samples: [], runs: [] }));
+  }, [modelName, runKey]);
+
+  useEffect(() => {
+    if (!modelName) return;
+
+    // Load matchup summaries for this model
+    fetch(`/api/matchups/${encodeURIComponent(modelName)}`)
+      .then((res) => res.json())
+      .then((data) => setLoadedMatchups({ modelName, summaries: data.summaries || [] }))
+      .catch(() => setLoadedMatchups({ modelName, summaries: [] }));
+  }, [modelName]);
+
+  const loading =
+    modelName !== null && (loadedSamples?.modelName !== modelName || loadedSamples.runKey !== runKey);
+  const samples = loading ? [] : loadedSamples?.samples ?? [];
+  // Keep the run list while another run loads
+  const runs = loadedSamples?.modelName === modelName ? loadedSamples.runs : [];
+  const loadingMatchups = modelName !== null && loadedMatchups?.modelName !== modelName;
+  const matchupSummaries = loadingMatchups ? [] : loadedMatchups?.summaries ?? [];
+
+  return (
+    <Dialog open={modelName !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[calc(100vw-16px)] sm:w-[calc(100vw-100px)] sm:max-w-[1000px] h-[calc(100vh-100px)] flex flex-col p-0">
+        <DialogHeader className="px-6 py-4 border-b shrink-0">
+          <DialogTitle className="flex items-center gap-2 pr-6">
+            Writing Samples — {modelName}
+            {modelName && (
+              <Link
+                href={modelPagePath(modelName, "samples", runKey)}
+                className="inline-flex items-center justify-center h-5 w-5 rounded hover:bg-accent/80 transition-colors shrink-0"
+                title="Open model page"
+              >
+                <ExternalLink className="h-4 w-4 opacity-50 hover:opacity-100" />
+              </Link>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="samples" className="flex-1 flex flex-col overflow-hidden">
+          <TabsList className="mx-6 mt-4 shrink-0 w-fit">
+            <TabsTrigger value="samples">Samples</TabsTrigger>
+            <TabsTrigger value="matchups">
+              ELO Matchups
+              {matchupSummaries.length > 0 && (
+                <span className="ml-1.5 text-xs text-muted-foreground">
+                  ({matchupSummaries.length})
+                </span>
+              )}
+            </TabsTrigger>
+          </TabsList>
 
-export function SamplesModal({ modelName, onClose }: SamplesModalProps) {
-  const [samples, setSamples] = useState<Sample[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [expandedItem, setExpandedItem] = useState<string>("");
+          <TabsContent value="samples" className="flex-1 overflow-hidden mt-0">
+            {modelName && (
+              <SamplesPanel
+                key={`${modelName}:${runKey}`}
+                samples={samples}
+                loading={loading}
+                className="h-full overflow-y-auto px-6"
+                runSelector={
+                  <RunSelector
+                    runs={runs}
+                    runKey={runKey}
+                    onChange={(next) => setSelectedRun({ modelName, runKey: next })}
+                  />
+                }
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="matchups" className="flex-1 overflow-hidden mt-0">
+            {modelName && (
+              <MatchupsPanel
+                key={modelName}
+                modelName={modelName}
+                summaries={matchupSummaries}
+                loading={loadingMatchups}
+                className="h-full overflow-y-auto px-6 py-4"
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SamplesPanelProps {
+  samples: Sample[];
+  loading: boolean;
+  className?: string;
+  // Hide the per-sample prompt when the page already shows it
+  showPrompt?: boolean;
+  emptyMessage?: string;
+  // Task to open on load, e.g. from a search result
+  initialSampleId?: number | null;
+  // Shown above the samples to switch between a model's runs
+  runSelector?: ReactNode;
+}
+
+/**
+ * Accordion of a model's samples. Response content and judge results are
+ * loaded when a sample is expanded. Shared by the modal and the model page.
+ */
+export function SamplesPanel({
+  samples,
+  loading,
+  className,
+  showPrompt = true,
+  emptyMessage = "No writing samples available for this model.",
+  initialSampleId = null,
+  runSelector,
+}: SamplesPanelProps) {
+  const [expandedItem, setExpandedItem] = useState<string>(initialSampleId?.toString() ?? "");
   const [loadedResponses, setLoadedResponses] = useState<Record<number, SampleResponse>>({});
   const [loadingResponses, setLoadingResponses] = useState<Set<number>>(new Set());
   const [loadedJudges, setLoadedJudges] = useState<Record<number, JudgeResult[]>>({});
   const [loadingJudges, setLoadingJudges] = useState<Set<number>>(new Set());
-  const [matchupSummaries, setMatchupSummaries] = useState<MatchupSummary[]>([]);
-  const [loadingMatchups, setLoadingMatchups] = useState(false);
-  const [expandedOpponent, setExpandedOpponent] = useState<string | null>(null);
-  const [matchupDetails, setMatchupDetails] = useState<Record<string, MatchupDetail[]>>({});
-  const [loadingOpponentDetails, setLoadingOpponentDetails] = useState<Set<string>>(new Set());
-  const [pendingScrollTarget, setPendingScrollTarget] = useState<number | null>(null);
+  const [pendingScrollTarget, setPendingScrollTarget] = useState<number | null>(initialSampleId);
+  // Lexical metrics per chapter, computed from each response once it has loaded
+  const [sampleMetrics, setSampleMetrics] = useState<Record<number, SampleMetrics>>({});
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    if (modelName) {
-      setLoading(true);
-      setSamples([]);
-      setExpandedItem("");
-      setLoadedResponses({});
-      setLoadingResponses(new Set());
-      setLoadedJudges({});
-      setLoadingJudges(new Set());
-      setMatchupSummaries([]);
-      setLoadingMatchups(false);
-      setExpandedOpponent(null);
-      setMatchupDetails({});
-      setLoadingOpponentDetails(new Set());
-
-      fetch(`/api/samples/${encodeURIComponent(modelName)}`)
-        .then((res) => res.json())
-        .then((data) => {
-          setSamples(data.samples || []);
-          setLoading(false);
-        })
-        .catch(() => {
-          setLoading(false);
-        });
-
-      // Load matchup summaries for this model
-      setLoadingMatchups(true);
-      fetch(`/api/matchups/${encodeURIComponent(modelName)}`)
-        .then((res) => res.json())
-        .then((data) => {
-          setMatchupSummaries(data.summaries || []);
-          setLoadingMatchups(false);
-        })
-        .catch(() => {
-          setLoadingMatchups(false);
-        });
-    }
-  }, [modelName]);
-
   const loadSampleResponse = async (taskId: number) => {
     if (loadedResponses[taskId] || loadingResponses.has(taskId)) return;
 
@@ -139,6 +220,7 @@ export function SamplesModal({ modelName, onClose }: SamplesModalProps) {
         ...prev,
         [taskId]: data,
       }));
+      setSampleMetrics((prev) => ({ ...prev, [taskId]: computeSampleMetrics(data) }));
     } catch {
       // Failed to load response
     } finally {
@@ -173,31 +255,6 @@ export function SamplesModal({ modelName, onClose }: SamplesModalProps) {
     }
   };
 
-  const loadOpponentDetails = async (opponent: string) => {
-    if (matchupDetails[opponent] || loadingOpponentDetails.has(opponent) || !modelName) return;
-
-    setLoadingOpponentDetails((prev) => new Set(prev).add(opponent));
-
-    try {
-      const res = await fetch(
-        `/api/matchups/${encodeURIComponent(modelName)}?opponent=${encodeURIComponent(opponent)}&limit=100`
-      );
-      const data = await res.json();
-      setMatchupDetails((prev) => ({
-        ...prev,
-        [opponent]: data.details || [],
-      }));
-    } catch {
-      // Failed to load details
-    } finally {
-      setLoadingOpponentDetails((prev) => {
-        const next = new Set(prev);
-        next.delete(opponent);
-        return next;
-      });
-    }
-  };
-
   const handleAccordionChange = (value: string) => {
     setExpandedItem(value);
 
@@ -215,34 +272,221 @@ export function SamplesModal({ modelName, onClose }: SamplesModalProps) {
     }
   };
 
+  // Load the sample opened via initialSampleId
+  useEffect(() => {
+    if (initialSampleId === null) return;
+    fetch(`/api/samples/response/${initialSampleId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        setLoadedResponses((prev) => ({ ...prev, [initialSampleId]: data }));
+        setSampleMetrics((prev) => ({ ...prev, [initialSampleId]: computeSampleMetrics(data) }));
+      })
+      .catch(() => {});
+    fetch(`/api/samples/judges/${initialSampleId}`)
+      .then((res) => res.json())
+      .then((data) => setLoadedJudges((prev) => ({ ...prev, [initialSampleId]: data.judges || [] })))
+      .catch(() => {});
+  }, [initialSampleId]);
+
   // Scroll to the expanded item once its content has loaded
   useEffect(() => {
     if (pendingScrollTarget !== null && loadedResponses[pendingScrollTarget] && scrollContainerRef.current) {
       const element = document.getElementById(`sample-${pendingScrollTarget}`);
       if (element) {
         const container = scrollContainerRef.current;
-        const elementTop = element.offsetTop - container.offsetTop;
-        container.scrollTo({ top: elementTop - 16, behavior: "smooth" });
+        if (container.scrollHeight > container.clientHeight) {
+          const elementTop = element.offsetTop - container.offsetTop;
+          container.scrollTo({ top: elementTop - 16, behavior: "smooth" });
+        } else {
+          // Panel isn't its own scroll container (e.g. on the model page)
+          element.scrollIntoView({ behavior: "smooth", block: "start" });
+        }
       }
       setPendingScrollTarget(null);
     }
   }, [pendingScrollTarget, loadedResponses]);
 
-  const getOverallScore = (scores: Record<string, number> | null): number | null => {
-    if (!scores) return null;
-    // Look for common overall score keys
-    const overallKeys = ["overall", "total", "score", "final_score"];
-    for (const key of overallKeys) {
-      if (key in scores && typeof scores[key] === "number") {
-        return scores[key];
-      }
-    }
-    // Fall back to average of all numeric scores
-    const numericScores = Object.values(scores).filter(v => typeof v === "number");
-    if (numericScores.length > 0) {
-      return numericScores.reduce((a, b) => a + b, 0) / numericScores.length;
+  const renderSample = (sample: Sample) => {
+    const promptInfo = promptsData[sample.prompt_id];
+    const score = getOverallScore(sample.aggregated_scores);
+
+    return (
+      <AccordionItem
+        key={sample.id}
+        value={sample.id.toString()}
+        id={`sample-${sample.id}`}
+        className="scroll-mt-20"
+      >
+        <AccordionTrigger className="hover:no-underline py-3 px-4 rounded-lg bg-secondary transition-colors hover:bg-secondary/70 data-[state=open]:bg-secondary/80 cursor-pointer">
+          <div className="flex items-center justify-between w-full pr-2">
+            {sample.model_name ? (
+              <span className="text-sm font-medium text-left break-all">
+                {sample.model_name}
+              </span>
+            ) : (
+              <div className="flex items-center gap-3 text-left">
+                <span className="text-sm font-medium">
+                  {promptInfo?.category ?? `Prompt ${sample.prompt_id}`}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  #{sample.prompt_id}
+                </span>
+              </div>
+            )}
+            <div className="flex items-center gap-3 shrink-0">
+              {sample.metrics && <SampleMetricsSummary metrics={sample.metrics} />}
+              {score !== null && (
+                <span className="text-sm font-mono text-muted-foreground">
+                  {score.toFixed(1)}
+                </span>
+              )}
+            </div>
+          </div>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="space-y-4 pt-2">
+            {/* Writing prompt */}
+            {showPrompt && promptInfo && (
+              <div className="rounded-lg bg-muted/50 p-4">
+                <div className="text-xs font-medium text-muted-foreground mb-2">
+                  WRITING PROMPT
+                </div>
+                <p className="text-sm italic">{promptInfo.prompt}</p>
+                <Link
+                  href={promptPagePath(sample.prompt_id)}
+                  className="inline-block mt-2 text-xs text-muted-foreground hover:underline hover:text-foreground transition-colors"
+                >
+                  Every model&apos;s response to this prompt →
+                </Link>
+              </div>
+            )}
+
+            {sampleMetrics[sample.id] && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">
+                  LEXICAL METRICS
+                </div>
+                <SampleMetricsTable metrics={sampleMetrics[sample.id]} />
+              </div>
+            )}
+
+            {/* Scores Section - collapsed by default */}
+            <JudgeScoresSection
+              aggregatedScores={sample.aggregated_scores}
+              loadedJudges={loadedJudges[sample.id]}
+              isLoading={loadingJudges.has(sample.id)}
+            />
+
+            {/* Model response */}
+            <div className="space-y-3">
+              <div className="text-xs font-medium text-muted-foreground">
+                MODEL RESPONSE
+              </div>
+              {loadingResponses.has(sample.id) ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-3/4" />
+                  <Skeleton className="h-4 w-5/6" />
+                </div>
+              ) : loadedResponses[sample.id] ? (
+                <SampleContent response={loadedResponses[sample.id]} />
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  Loading response...
+                </div>
+              )}
+            </div>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    );
+  };
+
+  // Runs with several iterations show each as its own group
+  const iterationGroups = [...new Set(samples.map((s) => s.iteration_index))]
+    .sort((x, y) => x - y)
+    .map((iteration) => ({
+      iteration,
+      samples: samples.filter((s) => s.iteration_index === iteration),
+    }));
+
+  return (
+    <div ref={scrollContainerRef} className={className}>
+      {runSelector && <div className="pt-4">{runSelector}</div>}
+      {loading ? (
+        <div className="space-y-4 py-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ))}
+        </div>
+      ) : samples.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">
+          {emptyMessage}
+        </div>
+      ) : (
+        <Accordion
+          type="single"
+          collapsible
+          value={expandedItem}
+          onValueChange={handleAccordionChange}
+          className="py-4"
+        >
+          {iterationGroups.length > 1
+            ? iterationGroups.map((group) => (
+                <Fragment key={group.iteration}>
+                  <div className="pt-4 pb-2 text-xs font-medium text-muted-foreground first:pt-0">
+                    ITERATION {group.iteration} · {group.samples.length} samples
+                  </div>
+                  {group.samples.map(renderSample)}
+                </Fragment>
+              ))
+            : samples.map(renderSample)}
+        </Accordion>
+      )}
+    </div>
+  );
+}
+
+interface MatchupsPanelProps {
+  modelName: string;
+  summaries: MatchupSummary[];
+  loading: boolean;
+  className?: string;
+}
+
+/**
+ * Per-opponent matchup summaries with expandable per-item details.
+ */
+export function MatchupsPanel({ modelName, summaries, loading, className }: MatchupsPanelProps) {
+  const [expandedOpponent, setExpandedOpponent] = useState<string | null>(null);
+  const [matchupDetails, setMatchupDetails] = useState<Record<string, MatchupDetail[]>>({});
+  const [loadingOpponentDetails, setLoadingOpponentDetails] = useState<Set<string>>(new Set());
+
+  const loadOpponentDetails = async (opponent: string) => {
+    if (matchupDetails[opponent] || loadingOpponentDetails.has(opponent)) return;
+
+    setLoadingOpponentDetails((prev) => new Set(prev).add(opponent));
+
+    try {
+      const res = await fetch(
+        `/api/matchups/${encodeURIComponent(modelName)}?opponent=${encodeURIComponent(opponent)}&limit=100`
+      );
+      const data = await res.json();
+      setMatchupDetails((prev) => ({
+        ...prev,
+        [opponent]: data.details || [],
+      }));
+    } catch {
+      // Failed to load details
+    } finally {
+      setLoadingOpponentDetails((prev) => {
+        const next = new Set(prev);
+        next.delete(opponent);
+        return next;
+      });
     }
-    return null;
   };
 
   const handleOpponentToggle = (opponent: string) => {
@@ -255,275 +499,203 @@ export function SamplesModal({ modelName, onClose }: SamplesModalProps) {
   };
 
   return (
-    <Dialog open={modelName !== null} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="w-[calc(100vw-16px)] sm:w-[calc(100vw-100px)] sm:max-w-[1000px] h-[calc(100vh-100px)] flex flex-col p-0">
-        <DialogHeader className="px-6 py-4 border-b shrink-0">
-          <DialogTitle>Writing Samples — {modelName}</DialogTitle>
-        </DialogHeader>
-
-        <Tabs defaultValue="samples" className="flex-1 flex flex-col overflow-hidden">
-          <TabsList className="mx-6 mt-4 shrink-0 w-fit">
-            <TabsTrigger value="samples">Samples</TabsTrigger>
-            <TabsTrigger value="matchups">
-              ELO Matchups
-              {matchupSummaries.length > 0 && (
-                <span className="ml-1.5 text-xs text-muted-foreground">
-                  ({matchupSummaries.length})
-                </span>
-              )}
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="samples" className="flex-1 overflow-hidden mt-0">
-            <div
-              ref={scrollContainerRef}
-              className="h-full overflow-y-auto px-6"
-            >
-              {loading ? (
-                <div className="space-y-4 py-4">
-                  {[1, 2, 3].map((i) => (
-                    <div key={i} className="space-y-2">
-                      <Skeleton className="h-12 w-full" />
-                    </div>
-                  ))}
-                </div>
-              ) : samples.length === 0 ? (
-                <div className="py-8 text-center text-muted-foreground">
-                  No writing samples available for this model.
-                </div>
-              ) : (
-                <Accordion
-                  type="single"
-                  collapsible
-                  value={expandedItem}
-                  onValueChange={handleAccordionChange}
-                  className="py-4"
+    <div className={className}>
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : summaries.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">
+          No ELO matchups available for this model.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {summaries.map((summary) => {
+            const isWinning = summary.winsForModel > summary.winsForOpponent;
+            const isLosing = summary.winsForModel < summary.winsForOpponent;
+            return (
+              <div key={summary.opponent} className="border rounded-lg">
+                <button
+                  type="button"
+                  onClick={() => handleOpponentToggle(summary.opponent)}
+                  className="w-full p-3 text-left hover:bg-muted/50 transition-colors cursor-pointer"
                 >
-                  {samples.map((sample) => {
-                    const promptInfo = promptsData[sample.prompt_id];
-                    const score = getOverallScore(sample.aggregated_scores);
-
-                    return (
-                      <AccordionItem
-                        key={sample.id}
-                        value={sample.id.toString()}
-                        id={`sample-${sample.id}`}
-                      >
-                        <AccordionTrigger className="hover:no-underline py-3 px-4 rounded-lg bg-secondary transition-colors hover:bg-secondary/70 data-[state=open]:bg-secondary/80 cursor-pointer">
-                          <div className="flex items-center justify-between w-full pr-2">
-                            <div className="flex items-center gap-3 text-left">
-                              <span className="text-sm font-medium">
-                                {promptInfo?.category ?? `Prompt ${sample.prompt_id}`}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                #{sample.prompt_id}
-                              </span>
-                            </div>
-                            {score !== null && (
-                              <span className="text-sm font-mono text-muted-foreground">
-                                {score.toFixed(1)}
-                              </span>
-                            )}
-                          </div>
-                        </AccordionTrigger>
-                        <AccordionContent>
-                          <div className="space-y-4 pt-2">
-                            {/* Writing prompt */}
-                            {promptInfo && (
-                              <div className="rounded-lg bg-muted/50 p-4">
-                                <div className="text-xs font-medium text-muted-foreground mb-2">
-                                  WRITING PROMPT
-                                </div>
-                                <p className="text-sm italic">{promptInfo.prompt}</p>
-                              </div>
-                            )}
-
-                            {/* Scores Section - collapsed by default */}
-                            <JudgeScoresSection
-                              aggregatedScores={sample.aggregated_scores}
-                              loadedJudges={loadedJudges[sample.id]}
-                              isLoading={loadingJudges.has(sample.id)}
-                            />
-
-                            {/* Model response */}
-                            <div className="space-y-3">
-                              <div className="text-xs font-medium text-muted-foreground">
-                                MODEL RESPONSE
-                              </div>
-                              {loadingResponses.has(sample.id) ? (
-                                <div className="space-y-2">
-                                  <Skeleton className="h-4 w-full" />
-                                  <Skeleton className="h-4 w-3/4" />
-                                  <Skeleton className="h-4 w-5/6" />
-                                </div>
-                              ) : loadedResponses[sample.id] ? (
-                                <SampleContent response={loadedResponses[sample.id]} />
-                              ) : (
-                                <div className="text-sm text-muted-foreground">
-                                  Loading response...
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </AccordionContent>
-                      </AccordionItem>
-                    );
-                  })}
-                </Accordion>
-              )}
-            </div>
-          </TabsContent>
+                  {/* Desktop layout - single row */}
+                  <div className="hidden sm:flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <ChevronRight
+                        className={`h-4 w-4 text-muted-foreground transition-transform shrink-0 ${
+                          expandedOpponent === summary.opponent ? "rotate-90" : ""
+                        }`}
+                      />
+                      <span className="font-medium text-sm">
+                        vs {summary.opponent}
+                      </span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        ({summary.matchupCount} matchups)
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm shrink-0">
+                      <div className="flex items-center gap-1">
+                        {isWinning && <Trophy className="h-3.5 w-3.5 text-green-500" />}
+                        <span className="text-xs text-muted-foreground">Us:</span>
+                        <span className={`font-mono ${isWinning ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}>
+                          {summary.winsForModel}
+                        </span>
+                      </div>
+                      <span className="text-muted-foreground">|</span>
+                      <div className="flex items-center gap-1">
+                        {isLosing && <Trophy className="h-3.5 w-3.5 text-red-500" />}
+                        <span className="text-xs text-muted-foreground">Them:</span>
+                        <span className={`font-mono ${isLosing ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
+                          {summary.winsForOpponent}
+                        </span>
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        ({(summary.avgFractionForModel * 100).toFixed(0)}%)
+                      </span>
+                    </div>
+                  </div>
 
-          <TabsContent value="matchups" className="flex-1 overflow-hidden mt-0">
-            <div className="h-full overflow-y-auto px-6 py-4">
-              {loadingMatchups ? (
-                <div className="space-y-3">
-                  {[1, 2, 3, 4, 5].map((i) => (
-                    <Skeleton key={i} className="h-14 w-full" />
-                  ))}
-                </div>
-              ) : matchupSummaries.length === 0 ? (
-                <div className="py-8 text-center text-muted-foreground">
-                  No ELO matchups available for this model.
-                </div>
-              ) : (
-                <div className="space-y-2">
-                  {matchupSummaries.map((summary) => {
-                    const isWinning = summary.winsForModel > summary.winsForOpponent;
-                    const isLosing = summary.winsForModel < summary.winsForOpponent;
-                    return (
-                      <div key={summary.opponent} className="border rounded-lg">
-                        <button
-                          type="button"
-                          onClick={() => handleOpponentToggle(summary.opponent)}
-                          className="w-full p-3 text-left hover:bg-muted/50 transition-colors cursor-pointer"
-                        >
-                          {/* Desktop layout - single row */}
-                          <div className="hidden sm:flex items-center justify-between">
-                            <div className="flex items-center gap-3">
-                              <ChevronRight
-                                className={`h-4 w-4 text-muted-foreground transition-transform shrink-0 ${
-                                  expandedOpponent === summary.opponent ? "rotate-90" : ""
-                                }`}
-                              />
-                              <span className="font-medium text-sm">
-                                vs {summary.opponent}
-                              </span>
-                              <span className="text-xs text-muted-foreground shrink-0">
-                                ({summary.matchupCount} matchups)
-                              </span>
-                            </div>
-                            <div className="flex items-center gap-3 text-sm shrink-0">
-                              <div className="flex items-center gap-1">
-                                {isWinning && <Trophy className="h-3.5 w-3.5 text-green-500" />}
-                                <span className="text-xs text-muted-foreground">Us:</span>
-                                <span className={`font-mono ${isWinning ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}>
-                                  {summary.winsForModel}
-                                </span>
-                              </div>
-                              <span className="text-muted-foreground">|</span>
-                              <div className="flex items-center gap-1">
-                                {isLosing && <Trophy className="h-3.5 w-3.5 text-red-500" />}
-                                <span className="text-xs text-muted-foreground">Them:</span>
-                                <span className={`font-mono ${isLosing ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
-                                  {summary.winsForOpponent}
-                                </span>
-                              </div>
-                              <span className="text-xs text-muted-foreground">
-                                ({(summary.avgFractionForModel * 100).toFixed(0)}%)
-                              </span>
-                            </div>
-                          </div>
-
-                          {/* Mobile layout - two rows */}
-                          <div className="sm:hidden space-y-2">
-                            <div className="flex items-start gap-2">
-                              <ChevronRight
-                                className={`h-4 w-4 text-muted-foreground transition-transform shrink-0 mt-0.5 ${
-                                  expandedOpponent === summary.opponent ? "rotate-90" : ""
-                                }`}
-                              />
-                              <div>
-                                <span className="font-medium text-sm break-words">
-                                  vs {summary.opponent}
-                                </span>
-                                <span className="text-xs text-muted-foreground ml-2">
-                                  ({summary.matchupCount})
-                                </span>
-                              </div>
-                            </div>
-                            <div className="flex items-center gap-3 text-sm pl-6">
-                              <div className="flex items-center gap-1">
-                                {isWinning && <Trophy className="h-3.5 w-3.5 text-green-500" />}
-                                <span className="text-xs text-muted-foreground">Us:</span>
-                                <span className={`font-mono ${isWinning ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}>
-                                  {summary.winsForModel}
-                                </span>
-                              </div>
-                              <span className="text-muted-foreground">|</span>
-                              <div className="flex items-center gap-1">
-                                {isLosing && <Trophy className="h-3.5 w-3.5 text-red-500" />}
-                                <span className="text-xs text-muted-foreground">Them:</span>
-                                <span className={`font-mono ${isLosing ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
-                                  {summary.winsForOpponent}
-                                </span>
-                              </div>
-                              <span className="text-xs text-muted-foreground">
-                                ({(summary.avgFractionForModel * 100).toFixed(0)}%)
-                              </span>
-                            </div>
-                          </div>
-                        </button>
-
-                      {expandedOpponent === summary.opponent && (
-                        <div className="border-t px-3 pb-3">
-                          {loadingOpponentDetails.has(summary.opponent) ? (
-                            <div className="py-3 space-y-2">
-                              <Skeleton className="h-8 w-full" />
-                              <Skeleton className="h-8 w-full" />
-                            </div>
-                          ) : matchupDetails[summary.opponent]?.length > 0 ? (
-                            <div className="pt-2 space-y-1">
-                              {matchupDetails[summary.opponent].map((detail) => (
-                                <MatchupDetailRow
-                                  key={detail.id}
-                                  detail={detail}
-                                  viewedModelName={modelName}
-                                  opponentModelName={summary.opponent}
-                                />
-                              ))}
-                            </div>
-                          ) : (
-                            <div className="py-3 text-sm text-muted-foreground">
-                              No matchup details available
-                            </div>
-                          )}
-                        </div>
-                      )}
+                  {/* Mobile layout - two rows */}
+                  <div className="sm:hidden space-y-2">
+                    <div className="flex items-start gap-2">
+                      <ChevronRight
+                        className={`h-4 w-4 text-muted-foreground transition-transform shrink-0 mt-0.5 ${
+                          expandedOpponent === summary.opponent ? "rotate-90" : ""
+                        }`}
+                      />
+                      <div>
+                        <span className="font-medium text-sm break-words">
+                          vs {summary.opponent}
+                        </span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          ({summary.matchupCount})
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm pl-6">
+                      <div className="flex items-center gap-1">
+                        {isWinning && <Trophy className="h-3.5 w-3.5 text-green-500" />}
+                        <span className="text-xs text-muted-foreground">Us:</span>
+                        <span className={`font-mono ${isWinning ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}>
+                          {summary.winsForModel}
+                        </span>
+                      </div>
+                      <span className="text-muted-foreground">|</span>
+                      <div className="flex items-center gap-1">
+                        {isLosing && <Trophy className="h-3.5 w-3.5 text-red-500" />}
+                        <span className="text-xs text-muted-foreground">Them:</span>
+                        <span className={`font-mono ${isLosing ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
+                          {summary.winsForOpponent}
+                        </span>
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        ({(summary.avgFractionForModel * 100).toFixed(0)}%)
+                      </span>
+                    </div>
+                  </div>
+                </button>
+
+              {expandedOpponent === summary.opponent && (
+                <div className="border-t px-3 pb-3">
+                  <Link
+                    href={comparePath(modelName, summary.opponent)}
+                    className="inline-block pt-2 text-xs text-muted-foreground hover:text-foreground hover:underline"
+                  >
+                    Compare side by side →
+                  </Link>
+                  {loadingOpponentDetails.has(summary.opponent) ? (
+                    <div className="py-3 space-y-2">
+                      <Skeleton className="h-8 w-full" />
+                      <Skeleton className="h-8 w-full" />
+                    </div>
+                  ) : matchupDetails[summary.opponent]?.length > 0 ? (
+                    <div className="pt-2 space-y-1">
+                      {matchupDetails[summary.opponent].map((detail) => (
+                        <MatchupDetailRow
+                          key={detail.id}
+                          detail={detail}
+                          viewedModelName={modelName}
+                          opponentModelName={summary.opponent}
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="py-3 text-sm text-muted-foreground">
+                      No matchup details available
                     </div>
-                    );
-                  })}
+                  )}
                 </div>
               )}
             </div>
-          </TabsContent>
-        </Tabs>
-      </DialogContent>
-    </Dialog>
+            );
+          })}
+        </div>
+      )}
+    </div>
   );
 }
 
-function SampleContent({ response }: { response: SampleResponse }) {
+/**
+ * The story text of a response, one entry per chapter. Planning is left out
+ * since slop is measured on the story.
+ */
+function storyTexts(response: SampleResponse): string[] {
+  const responses = response.model_responses;
+  if (responses && responses.length > 0) {
+    return responses.filter(t => t.turn_type !== "planning").map(t => t.assistant_response || "");
+  }
+  return [response.model_response || ""];
+}
+
+export function SampleContent({ response }: { response: SampleResponse }) {
   const [planningExpanded, setPlanningExpanded] = useState(false);
+  const [showSlop, setShowSlop] = useState(false);
   const responses = response.model_responses;
-  const singleResponse = response.model_response;
+  const isMultiTurn = !!responses && responses.length > 0;
+  const planningTurn = responses?.find(t => t.turn_type === "planning");
+  const chapterTurns = responses?.filter(t => t.turn_type !== "planning") ?? [];
+
+  const texts = storyTexts(response);
+  const slop = useMemo(() => {
+    if (!showSlop) return null;
+    const storyText = storyTexts(response);
+    const matches = storyText.map((text) => detectSlop(text));
+    return { matches, summary: summarizeSlop(storyText.join("\n\n"), matches.flat()) };
+  }, [showSlop, response]);
+
+  const renderText = (index: number, fallback: string) =>
+    slop ? (
+      <SlopText text={texts[index]} matches={slop.matches[index]} />
+    ) : (
+      <div className="text-sm leading-relaxed [&>p]:mb-4 [&>p:last-child]:mb-0">
+        <ReactMarkdown>{texts[index] || fallback}</ReactMarkdown>
+      </div>
+    );
 
-  if (responses && responses.length > 0) {
-    const planningTurn = responses.find(t => t.turn_type === "planning");
-    const chapterTurns = responses.filter(t => t.turn_type !== "planning");
+  const slopControls = (
+    <div className="space-y-2">
+      <Button
+        variant={showSlop ? "secondary" : "outline"}
+        size="sm"
+        className="gap-2 cursor-pointer"
+        onClick={() => setShowSlop(!showSlop)}
+      >
+        <Highlighter className="h-4 w-4" />
+        {showSlop ? "Hide slop" : "Highlight slop"}
+      </Button>
+      {slop && <SlopLegend summary={slop.summary} />}
+    </div>
+  );
 
+  if (isMultiTurn) {
     return (
       <div className="space-y-4">
+        {slopControls}
+
         {/* Planning section - collapsed by default */}
         {planningTurn && (
           <div className="border rounded-lg">
@@ -557,11 +729,7 @@ function SampleContent({ response }: { response: SampleResponse }) {
             <div className="text-base font-semibold mb-3">
               Chapter {turn.chapter_number ?? turn.turn_index}
             </div>
-            <div className="text-sm leading-relaxed [&>p]:mb-4 [&>p:last-child]:mb-0">
-              <ReactMarkdown>
-                {turn.assistant_response || "No response"}
-              </ReactMarkdown>
-            </div>
+            {renderText(index, "No response")}
           </div>
         ))}
       </div>
@@ -569,23 +737,15 @@ function SampleContent({ response }: { response: SampleResponse }) {
   }
 
   return (
-    <div className="text-sm leading-relaxed [&>p]:mb-4 [&>p:last-child]:mb-0 bg-muted/30 p-3 rounded-lg">
-      <ReactMarkdown>
-        {singleResponse || "No response available"}
-      </ReactMarkdown>
+    <div className="space-y-4">
+      {slopControls}
+      <div className="bg-muted/30 p-3 rounded-lg">
+        {renderText(0, "No response available")}
+      </div>
     </div>
   );
 }
 
-// Fields to exclude from judge scores display
-const EXCLUDED_SCORE_FIELDS = new Set([
-  "piece score 0 20",
-  "per metric",
-  "n judges",
-  "ensemble mode",
-  "analysis_text",
-]);
-
 // Parse analysis text from raw_judge_text (fallback when analysis_text key is missing)
 function parseAnalysisFromRawText(rawText: string | null): string | null {
   if (!rawText) return null;
@@ -609,6 +769,8 @@ function JudgeScoresSection({
 }) {
   const [expanded, setExpanded] = useState(false);
   const [selectedJudgeIndex, setSelectedJudgeIndex] = useState(0);
+  // Every judge's scores side by side instead of one judge's
+  const [comparing, setComparing] = useState(false);
 
   // Filter valid judges that have scores
   const validJudges = loadedJudges?.filter(
@@ -617,16 +779,8 @@ function JudgeScoresSection({
 
   // Get dimensions from the selected judge, filtering out excluded fields
   const selectedJudge = validJudges[selectedJudgeIndex];
-  const dimensions = selectedJudge?.judge_scores
-    ? Object.entries(selectedJudge.judge_scores)
-        .filter(([key, value]) =>
-          !key.startsWith("_") &&
-          !EXCLUDED_SCORE_FIELDS.has(key) &&
-          typeof value === "number" &&
-          !isNaN(value)
-        )
-        .sort(([a], [b]) => a.localeCompare(b))
-    : [];
+  const dimensions = Object.entries(judgeDimensionScores(selectedJudge?.judge_scores ?? null))
+    .sort(([a], [b]) => a.localeCompare(b));
 
   // Get analysis text - prefer analysis_text from judge_scores, fallback to parsing raw_judge_text
   const analysisText = selectedJudge?.judge_scores?.analysis_text as string | undefined
@@ -684,9 +838,12 @@ function JudgeScoresSection({
               <button
                 key={idx}
                 type="button"
-                onClick={() => setSelectedJudgeIndex(idx)}
+                onClick={() => {
+                  setSelectedJudgeIndex(idx);
+                  setComparing(false);
+                }}
                 className={`shrink-0 px-3 py-1.5 text-xs rounded-md transition-colors cursor-pointer ${
-                  selectedJudgeIndex === idx
+                  !comparing && selectedJudgeIndex === idx
                     ? "bg-primary text-primary-foreground"
                     : "bg-muted hover:bg-muted/80 text-muted-foreground"
                 }`}
@@ -696,45 +853,64 @@ function JudgeScoresSection({
                   : judge.judge_model_name}
               </button>
             ))}
+            {validJudges.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setComparing(true)}
+                className={`shrink-0 px-3 py-1.5 text-xs rounded-md transition-colors cursor-pointer ${
+                  comparing
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted hover:bg-muted/80 text-muted-foreground"
+                }`}
+              >
+                Compare judges
+              </button>
+            )}
           </div>
 
-          {/* Horizontal bar chart for selected judge */}
-          <div className="space-y-2">
-            {dimensions.map(([key, value]) => {
-              const scaled = scaleScore(value as number);
-              return (
-                <div key={key} className="space-y-1">
-                  <div className="flex justify-between text-xs">
-                    <span className="text-muted-foreground capitalize truncate mr-2">
-                      {key.replace(/_/g, " ")}
-                    </span>
-                    <span className="font-mono font-medium shrink-0">
-                      {scaled.toFixed(0)}
-                    </span>
+          {comparing ? (
+            <JudgeScoreTable judges={validJudges} />
+          ) : (
+            <>
+              {/* Horizontal bar chart for selected judge */}
+              <div className="space-y-2">
+                {dimensions.map(([key, value]) => {
+                  const scaled = scaleScore(value as number);
+                  return (
+                    <div key={key} className="space-y-1">
+                      <div className="flex justify-between text-xs">
+                        <span className="text-muted-foreground capitalize truncate mr-2">
+                          {key.replace(/_/g, " ")}
+                        </span>
+                        <span className="font-mono font-medium shrink-0">
+                          {scaled.toFixed(0)}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className={`h-full rounded-full transition-all ${getBarColor(value as number)}`}
+                          style={{ width: `${Math.min(100, Math.max(0, scaled))}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Analysis text */}
+              {analysisText && (
+                <div className="pt-2 border-t">
+                  <div className="text-xs font-medium text-muted-foreground mb-2">
+                    ANALYSIS
                   </div>
-                  <div className="h-2 bg-muted rounded-full overflow-hidden">
-                    <div
-                      className={`h-full rounded-full transition-all ${getBarColor(value as number)}`}
-                      style={{ width: `${Math.min(100, Math.max(0, scaled))}%` }}
-                    />
+                  <div className="bg-muted/30 rounded p-3">
+                    <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
+                      {analysisText}
+                    </pre>
                   </div>
                 </div>
-              );
-            })}
-          </div>
-
-          {/* Analysis text */}
-          {analysisText && (
-            <div className="pt-2 border-t">
-              <div className="text-xs font-medium text-muted-foreground mb-2">
-                ANALYSIS
-              </div>
-              <div className="bg-muted/30 rounded p-3">
-                <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
-                  {analysisText}
-                </pre>
-              </div>
-            </div>
+              )}
+            </>
           )}
         </div>
       )}
@@ -804,14 +980,24 @@ function MatchupDetailRow({
         </div>
       </button>
 
-      {expanded && detail.judgeResponses != null && (
+      {expanded && (
         <div className="border-t px-3 py-2 text-xs space-y-3">
-          <JudgeResponsesDisplay
-            responses={detail.judgeResponses}
-            viewedModelName={viewedModelName}
-            opponentModelName={opponentModelName}
-            isViewedModelA={detail.isModelA}
-          />
+          {viewedModelName && (
+            <Link
+              href={comparePath(viewedModelName, opponentModelName, detail.item_id)}
+              className="inline-block text-muted-foreground hover:text-foreground hover:underline"
+            >
+              Read both responses side by side →
+            </Link>
+          )}
+          {detail.judgeResponses != null && (
+            <JudgeResponsesDisplay
+              responses={detail.judgeResponses}
+              viewedModelName={viewedModelName}
+              opponentModelName={opponentModelName}
+              isViewedModelA={detail.isModelA}
+            />
+          )}
         </div>
       )}
     </div>
@@ -830,7 +1016,7 @@ interface JudgeResponseItem {
   outcome: number;
 }
 
-function JudgeResponsesDisplay({
+export function JudgeResponsesDisplay({
   responses,
   viewedModelName,
   opponentModelName,
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronRight } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SampleContent, type SampleResponse } from "@/components/samples-modal";
+
+/**
+ * Expander for a search hit's full response, loaded on first open. Used for
+ * hits from earlier runs, which the model page doesn't list.
+ */
+export function SearchHitResponse({ taskId }: { taskId: number }) {
+  const [expanded, setExpanded] = useState(false);
+  const [response, setResponse] = useState<SampleResponse | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const handleToggle = async () => {
+    setExpanded(!expanded);
+    if (response || expanded) return;
+
+    try {
+      const res = await fetch(`/api/samples/response/${taskId}`);
+      if (!res.ok) throw new Error(res.statusText);
+      setResponse(await res.json());
+    } catch {
+      setFailed(true);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+      >
+        <ChevronRight className={`h-3 w-3 transition-transform ${expanded ? "rotate-90" : ""}`} />
+        Full response
+      </button>
+      {expanded && (
+        <div className="mt-3">
+          {response ? (
+            <SampleContent response={response} />
+          ) : failed ? (
+            <div className="text-sm text-muted-foreground">Failed to load response.</div>
+          ) : (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Archive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { compactSelectClassName } from "@/components/ui/native-select";
+import type { SeasonSummary } from "@/lib/seasons";
+
+interface SeasonSelectorProps {
+  seasons: SeasonSummary[];
+  // Slug of the archived season on display, or null for the live board
+  selected: string | null;
+  isAdmin?: boolean;
+}
+
+export function SeasonSelector({ seasons, selected, isAdmin }: SeasonSelectorProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [archiving, setArchiving] = useState(false);
+
+  const selectSeason = (slug: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    // Archived seasons keep no rubric scores, so custom rankings don't carry over
+    params.delete("preset");
+    params.delete("weights");
+    if (slug) params.set("season", slug);
+    else params.delete("season");
+    const query = params.toString();
+    router.push(query ? `/?${query}` : "/");
+  };
+
+  const handleArchive = async () => {
+    const name = prompt(
+      "Archive the current ratings, comparisons and runs as a season.\n\nSeason name:"
+    );
+    if (!name?.trim()) return;
+
+    setArchiving(true);
+    try {
+      const response = await fetch("/api/admin/seasons", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || "Failed to archive season");
+        return;
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error("Archive error:", error);
+      alert("Failed to archive season");
+    } finally {
+      setArchiving(false);
+    }
+  };
+
+  if (seasons.length === 0 && !isAdmin) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-2 sm:px-0 mb-4">
+      {seasons.length > 0 && (
+        <select
+          aria-label="Season"
+          className={compactSelectClassName}
+          value={selected ?? ""}
+          onChange={(e) => selectSeason(e.target.value)}
+        >
+          <option value="">Current season</option>
+          {seasons.map((season) => (
+            <option key={season.slug} value={season.slug}>
+              {season.name} (archived)
+            </option>
+          ))}
+        </select>
+      )}
+      {isAdmin && !selected && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 cursor-pointer"
+          onClick={handleArchive}
+          disabled={archiving}
+        >
+          <Archive className="h-4 w-4" />
+          {archiving ? "Archiving..." : "Archive season"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import {
+  SLOP_KIND_LABELS,
+  slopSegments,
+  type SlopKind,
+  type SlopMatch,
+  type SlopSummary,
+} from "@/lib/slop-detector";
+
+const SLOP_KIND_CLASSES: Record<SlopKind, string> = {
+  notXButY: "bg-purple-200/70 dark:bg-purple-500/30",
+  trigram: "bg-orange-200/70 dark:bg-orange-500/30",
+  word: "bg-yellow-200/70 dark:bg-yellow-500/30",
+};
+
+/**
+ * Plain text with slop matches highlighted by kind.
+ */
+export function SlopText({ text, matches }: { text: string; matches: SlopMatch[] }) {
+  return (
+    <div className="text-sm leading-relaxed whitespace-pre-wrap">
+      {slopSegments(text, matches).map((segment, i) =>
+        segment.kind ? (
+          <mark
+            key={i}
+            className={`rounded-sm text-inherit ${SLOP_KIND_CLASSES[segment.kind]}`}
+            title={SLOP_KIND_LABELS[segment.kind]}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Colour key with the sample's count and rate for each kind.
+ */
+export function SlopLegend({ summary }: { summary: SlopSummary }) {
+  const rates: Record<SlopKind, string> = {
+    word: `${summary.wordsPer1k.toFixed(1)} / 1k words`,
+    trigram: `${summary.trigramsPer1k.toFixed(1)} / 1k words`,
+    notXButY: `${summary.notXButYPer1kChars.toFixed(2)} / 1k chars`,
+  };
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+      {(Object.keys(SLOP_KIND_LABELS) as SlopKind[]).map((kind) => (
+        <span key={kind} className="inline-flex items-center gap-1.5">
+          <span className={`inline-block h-3 w-3 rounded-sm ${SLOP_KIND_CLASSES[kind]}`} />
+          {SLOP_KIND_LABELS[kind]}: <span className="font-mono text-foreground">{summary.counts[kind]}</span>
+          <span className="font-mono">({rates[kind]})</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+// Class names for native <select> elements, matching the Input control.
+// Full width for forms, compact for inline filters and pickers.
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-background text-foreground px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+const compactSelectClassName =
+  "h-8 rounded-md border border-input bg-background text-foreground px-2 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+export { selectClassName, compactSelectClassName }
@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { comparePath } from "@/lib/model-links";
+import type { WinRateMatrix } from "@/lib/win-rate-matrix";
+
+type SortKey = "elo" | "name" | "coverage";
+
+const SORT_LABELS: Record<SortKey, string> = {
+  elo: "ELO",
+  name: "Name",
+  coverage: "Coverage",
+};
+
+// Red below 50%, green above, fading to neutral at 50%
+function cellColor(winRate: number): string {
+  const hue = winRate >= 0.5 ? 142 : 0;
+  const strength = Math.min(Math.abs(winRate - 0.5) * 2, 1);
+  return `hsla(${hue}, 70%, 45%, ${0.15 + strength * 0.85})`;
+}
+
+interface WinRateHeatmapProps {
+  matrix: WinRateMatrix;
+}
+
+export function WinRateHeatmap({ matrix }: WinRateHeatmapProps) {
+  const router = useRouter();
+  const [sortKey, setSortKey] = useState<SortKey>("elo");
+
+  // Row/column order as indexes into matrix.models (which is already Elo order)
+  const order = useMemo(() => {
+    const indexes = matrix.models.map((_, i) => i);
+    if (sortKey === "name") {
+      return indexes.sort((a, b) =>
+        matrix.models[a].model_name.localeCompare(matrix.models[b].model_name)
+      );
+    }
+    if (sortKey === "coverage") {
+      const opponents = matrix.counts.map((row) => row.filter((c) => c > 0).length);
+      return indexes.sort((a, b) => opponents[b] - opponents[a] || a - b);
+    }
+    return indexes;
+  }, [matrix, sortKey]);
+
+  if (matrix.models.length === 0) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        No comparisons recorded yet.
+      </div>
+    );
+  }
+
+  const testedPairs = matrix.counts.reduce(
+    (sum, row, i) => sum + row.filter((c, j) => j > i && c > 0).length,
+    0
+  );
+  const totalPairs = (matrix.models.length * (matrix.models.length - 1)) / 2;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Sort by</span>
+          {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+            <Button
+              key={key}
+              variant={sortKey === key ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setSortKey(key)}
+            >
+              {SORT_LABELS[key]}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {testedPairs} of {totalPairs} pairs compared
+        </p>
+      </div>
+
+      <div className="overflow-auto rounded-lg border max-h-[75vh]">
+        <table className="border-collapse text-[10px]">
+          <thead>
+            <tr>
+              <th className="sticky top-0 left-0 z-20 bg-background" />
+              {order.map((j) => (
+                <th
+                  key={j}
+                  className="sticky top-0 z-10 bg-background px-0 pb-1 align-bottom font-normal text-muted-foreground"
+                  title={matrix.models[j].model_name}
+                >
+                  <div className="mx-auto max-h-40 truncate [writing-mode:vertical-rl] rotate-180">
+                    {matrix.models[j].model_name}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((i) => (
+              <tr key={i}>
+                <th
+                  className="sticky left-0 z-10 bg-background pr-2 text-right font-normal text-muted-foreground max-w-56 truncate"
+                  title={matrix.models[i].model_name}
+                >
+                  {matrix.models[i].model_name}
+                </th>
+                {order.map((j) => {
+                  const winRate = matrix.winRates[i][j];
+                  const count = matrix.counts[i][j];
+                  const rowName = matrix.models[i].model_name;
+                  const colName = matrix.models[j].model_name;
+
+                  if (i === j) {
+                    return <td key={j} className="h-5 w-5 min-w-5 border border-background bg-muted" />;
+                  }
+
+                  if (winRate === null) {
+                    return (
+                      <td
+                        key={j}
+                        className="h-5 w-5 min-w-5 border border-background"
+                        title={`${rowName} vs ${colName}: not compared`}
+                      />
+                    );
+                  }
+
+                  return (
+                    <td
+                      key={j}
+                      className="h-5 w-5 min-w-5 border border-background cursor-pointer hover:outline hover:outline-foreground"
+                      style={{ backgroundColor: cellColor(winRate) }}
+                      title={`${rowName} vs ${colName}: ${(winRate * 100).toFixed(0)}% over ${count} comparison${count === 1 ? "" : "s"}`}
+                      onClick={() => router.push(comparePath(rowName, colName))}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+        <span>Row loses</span>
+        <div className="h-2 w-32 rounded-full bg-gradient-to-r from-red-600 via-muted to-green-600" />
+        <span>Row wins</span>
+        <span className="ml-4 inline-block h-3 w-3 border" />
+        <span>Not compared</span>
+      </div>
+    </div>
+  );
+}
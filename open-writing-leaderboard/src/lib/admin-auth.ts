@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { auth } from "./auth";
+import { prisma } from "./db";
+import type { users } from "@/generated/prisma/client";
+
+export type AdminCheck =
+  | { user: users; error?: undefined }
+  | { user?: undefined; error: NextResponse };
+
+/**
+ * Check that the request comes from a signed-in admin. On failure `error` is
+ * the response to return (401, 404 or 403).
+ */
+export async function requireAdmin(): Promise<AdminCheck> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: "Authentication required" }, { status: 401 }) };
+  }
+
+  const user = await prisma.users.findUnique({
+    where: { auth_subject: session.user.id },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (user.role !== "admin") {
+    return { error: NextResponse.json({ error: "Admin access required" }, { status: 403 }) };
+  }
+
+  return { user };
+}
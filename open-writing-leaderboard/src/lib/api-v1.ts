@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+// Shared plumbing for the public /api/v1 routes: pagination, CSV export and
+// ETag revalidation. Every list endpoint returns the same envelope.
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export type CsvValue = string | number | boolean | null;
+export type V1Row = Record<string, CsvValue>;
+
+export interface V1Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface V1ListResponse<T extends V1Row> {
+  data: T[];
+  pagination: V1Pagination;
+}
+
+export class V1RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+function parsePositiveInt(value: string | null, name: string, fallback: number): number {
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new V1RequestError(`'${name}' must be a positive integer`);
+  }
+  return parsed;
+}
+
+function parseFormat(searchParams: URLSearchParams): "json" | "csv" {
+  const format = searchParams.get("format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new V1RequestError("'format' must be 'json' or 'csv'");
+  }
+  return format;
+}
+
+function csvCell(value: CsvValue): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as RFC 4180 CSV. Columns default to the keys of the first row.
+ */
+export function toCsv(rows: V1Row[], columns?: string[]): string {
+  const header = columns ?? Object.keys(rows[0] ?? {});
+  const lines = [header.map(csvCell).join(",")];
+  for (const row of rows) {
+    lines.push(header.map((c) => csvCell(row[c] ?? null)).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Respond with a body and a strong ETag, or 304 if the client already has it.
+ */
+function withETag(request: NextRequest, body: string, contentType: string, headers: Record<string, string> = {}) {
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  const common = {
+    ETag: etag,
+    "Cache-Control": "public, max-age=60, stale-while-revalidate=300",
+    ...headers,
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch && ifNoneMatch.split(",").some((tag) => tag.trim() === etag)) {
+    return new NextResponse(null, { status: 304, headers: common });
+  }
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: { "Content-Type": contentType, ...common },
+  });
+}
+
+function pageLink(request: NextRequest, page: number): string {
+  const url = new URL(request.url);
+  url.searchParams.set("page", String(page));
+  return url.toString();
+}
+
+/**
+ * Paginate rows and respond as JSON (`{ data, pagination }`) or, with
+ * ?format=csv, as CSV with the pagination in headers.
+ */
+export function v1ListResponse<T extends V1Row>(
+  request: NextRequest,
+  rows: T[],
+  options: { filename: string; columns?: string[] }
+): NextResponse {
+  const { searchParams } = new URL(request.url);
+  const format = parseFormat(searchParams);
+  const page = parsePositiveInt(searchParams.get("page"), "page", 1);
+  const limit = Math.min(
+    parsePositiveInt(searchParams.get("limit"), "limit", DEFAULT_PAGE_SIZE),
+    MAX_PAGE_SIZE
+  );
+
+  const total = rows.length;
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+  const data = rows.slice((page - 1) * limit, page * limit);
+  const pagination: V1Pagination = { page, limit, total, totalPages };
+
+  const links = [
+    page < totalPages ? `<${pageLink(request, page + 1)}>; rel="next"` : null,
+    page > 1 ? `<${pageLink(request, page - 1)}>; rel="prev"` : null,
+  ].filter((l): l is string => l !== null);
+  const headers: Record<string, string> = { "X-Total-Count": String(total) };
+  if (links.length > 0) headers.Link = links.join(", ");
+
+  if (format === "csv") {
+    return withETag(request, toCsv(data, options.columns), "text/csv; charset=utf-8", {
+      ...headers,
+      "Content-Disposition": `attachment; filename="${options.filename}.csv"`,
+    });
+  }
+
+  const body: V1ListResponse<T> = { data, pagination };
+  return withETag(request, JSON.stringify(body), "application/json", headers);
+}
+
+/**
+ * Single-resource JSON response with an ETag.
+ */
+export function v1ItemResponse(request: NextRequest, data: unknown): NextResponse {
+  return withETag(request, JSON.stringify({ data }), "application/json");
+}
+
+/**
+ * Wrap a v1 handler so request errors become 400s and everything else a 500,
+ * all in the `{ error }` shape the other API routes use.
+ */
+export function v1Handler<Ctx>(
+  name: string,
+  handler: (request: NextRequest, context: Ctx) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, context: Ctx) => {
+    try {
+      return await handler(request, context);
+    } catch (error) {
+      if (error instanceof V1RequestError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error(`Error in v1 ${name}:`, error);
+      return NextResponse.json({ error: `Failed to fetch ${name}` }, { status: 500 });
+    }
+  };
+}
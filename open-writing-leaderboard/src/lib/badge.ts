@@ -0,0 +1,76 @@
+// Shields-style SVG badges. Text widths are estimated from average Verdana
+// glyph widths, which is close enough for short labels.
+
+import { escapeXml } from "./utils";
+
+export const BADGE_STYLES = ["flat", "flat-square", "for-the-badge"] as const;
+
+export type BadgeStyle = (typeof BADGE_STYLES)[number];
+
+export function isBadgeStyle(value: string | null): value is BadgeStyle {
+  return BADGE_STYLES.includes(value as BadgeStyle);
+}
+
+export interface BadgeOptions {
+  label: string;
+  message: string;
+  // Message background, any CSS colour
+  color: string;
+  style?: BadgeStyle;
+}
+
+function charWidth(char: string, bold: boolean): number {
+  if (/[iljI.,:;'|!]/.test(char)) return bold ? 4 : 3.5;
+  if (/[mwMW@]/.test(char)) return bold ? 11 : 10;
+  if (/[A-Z#=]/.test(char)) return bold ? 8.5 : 7.5;
+  if (char === " ") return bold ? 4 : 3.5;
+  return bold ? 7.5 : 6.6;
+}
+
+function textWidth(text: string, bold: boolean, letterSpacing: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, bold) + letterSpacing;
+  return Math.ceil(width);
+}
+
+/**
+ * Render a two-part label/message badge as a standalone SVG document.
+ */
+export function renderBadge({ label, message, color, style = "flat" }: BadgeOptions): string {
+  const isLarge = style === "for-the-badge";
+  const height = isLarge ? 28 : 20;
+  const padding = isLarge ? 12 : 6;
+  const fontSize = isLarge ? 10 : 11;
+  const letterSpacing = isLarge ? 1.2 : 0;
+  const labelText = isLarge ? label.toUpperCase() : label;
+  const messageText = isLarge ? message.toUpperCase() : message;
+
+  const labelWidth = textWidth(labelText, isLarge, letterSpacing) + padding * 2;
+  const messageWidth = textWidth(messageText, isLarge, letterSpacing) + padding * 2;
+  const width = labelWidth + messageWidth;
+  const radius = style === "flat" ? 3 : 0;
+  const textY = isLarge ? 18 : 14;
+
+  const title = escapeXml(`${label}: ${message}`);
+  const gradient =
+    style === "flat"
+      ? `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`
+      : "";
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    gradient,
+    `<clipPath id="r"><rect width="${width}" height="${height}" rx="${radius}" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#r)">`,
+    `<rect width="${labelWidth}" height="${height}" fill="#555"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${escapeXml(color)}"/>`,
+    style === "flat" ? `<rect width="${width}" height="${height}" fill="url(#s)"/>` : "",
+    `</g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="${fontSize}"${isLarge ? ` font-weight="bold" letter-spacing="${letterSpacing}"` : ""}>`,
+    `<text x="${labelWidth / 2}" y="${textY}">${escapeXml(labelText)}</text>`,
+    `<text x="${labelWidth + messageWidth / 2}" y="${textY}">${escapeXml(messageText)}</text>`,
+    `</g>`,
+    `</svg>`,
+  ].join("");
+}
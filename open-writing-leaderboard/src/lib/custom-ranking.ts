@@ -0,0 +1,128 @@
+// Weighted composite scores over rubric proficiency dimensions. Client-safe:
+// weights round-trip through the URL so rankings can be shared.
+
+export const MAX_WEIGHT = 5;
+
+// Dimension label (as produced by computeProficiencies) → weight, 0 to MAX_WEIGHT
+export type RankingWeights = Record<string, number>;
+
+export interface RankingPreset {
+  id: string;
+  label: string;
+  weights: RankingWeights;
+}
+
+export const RANKING_PRESETS: RankingPreset[] = [
+  {
+    id: "instruction-following",
+    label: "Instruction following",
+    weights: {
+      "Instruction Following": 5,
+      Coherent: 3,
+      "Consistent Voice & Tone": 1,
+    },
+  },
+  {
+    id: "prose",
+    label: "Prose quality",
+    weights: {
+      "Elegant Prose": 4,
+      "Sentence Flow": 3,
+      "Avoids Purple Prose": 3,
+      "Avoids Amateurish Prose": 3,
+      "Descriptive Imagery": 2,
+      "Show-Don't-Tell": 2,
+    },
+  },
+  {
+    id: "storytelling",
+    label: "Storytelling",
+    weights: {
+      Creativity: 3,
+      Pacing: 3,
+      "Believable Characters": 3,
+      "Emotional Depth": 3,
+      "Strong Dialogue": 2,
+      "Avoids Positivity Bias": 2,
+    },
+  },
+];
+
+/**
+ * URL-safe slug for a dimension label, e.g. "Show-Don't-Tell" → "show-don-t-tell".
+ */
+export function dimensionSlug(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * Encode weights as "slug:weight,slug:weight", skipping zero weights.
+ */
+export function serializeWeights(weights: RankingWeights): string {
+  return Object.entries(weights)
+    .filter(([, w]) => w > 0)
+    .map(([label, w]) => `${dimensionSlug(label)}:${w}`)
+    .join(",");
+}
+
+/**
+ * Decode a ?weights= value against the known dimensions. Unknown slugs are
+ * ignored and weights are clamped to 0..MAX_WEIGHT. Returns null when no
+ * usable weight remains.
+ */
+export function parseWeights(value: string | null | undefined, dimensions: string[]): RankingWeights | null {
+  if (!value) return null;
+  const bySlug = new Map(dimensions.map((d) => [dimensionSlug(d), d]));
+
+  const weights: RankingWeights = {};
+  for (const part of value.split(",")) {
+    const [slug, raw] = part.split(":");
+    const label = bySlug.get(slug);
+    const weight = Number(raw);
+    if (!label || !Number.isFinite(weight)) continue;
+    const clamped = Math.min(MAX_WEIGHT, Math.max(0, weight));
+    if (clamped > 0) weights[label] = clamped;
+  }
+
+  return Object.keys(weights).length > 0 ? weights : null;
+}
+
+/**
+ * Weights for ?preset= / ?weights= params. An explicit weights param wins over
+ * a preset.
+ */
+export function resolveRankingWeights(
+  params: { preset?: string | null; weights?: string | null },
+  dimensions: string[]
+): { weights: RankingWeights; presetId: string | null } | null {
+  const custom = parseWeights(params.weights, dimensions);
+  if (custom) return { weights: custom, presetId: null };
+
+  const preset = RANKING_PRESETS.find((p) => p.id === params.preset);
+  if (!preset) return null;
+  const known = new Set(dimensions);
+  const weights = Object.fromEntries(
+    Object.entries(preset.weights).filter(([label]) => known.has(label))
+  );
+  return Object.keys(weights).length > 0 ? { weights, presetId: preset.id } : null;
+}
+
+/**
+ * Weighted mean of a model's rubric scores on the 0-10 display scale (scores
+ * are stored 0-20). Dimensions the model has no score for are left out of
+ * both sums. Null when none of the weighted dimensions are scored.
+ */
+export function computeCompositeScore(
+  absoluteScores: Record<string, number>,
+  weights: RankingWeights
+): number | null {
+  let total = 0;
+  let weightSum = 0;
+  for (const [label, weight] of Object.entries(weights)) {
+    const score = absoluteScores[label];
+    if (weight <= 0 || score === undefined || isNaN(score)) continue;
+    total += weight * (score / 2);
+    weightSum += weight;
+  }
+  return weightSum > 0 ? total / weightSum : null;
+}
@@ -0,0 +1,321 @@
+// Bradley-Terry rating solver for pairwise comparisons.
+// Fits model strengths with the MM algorithm (Hunter, 2004) using fractional
+// outcomes, then reports them on an Elo-style scale with bootstrap CIs.
+
+const ELO_SCALE = 400;
+const DEFAULT_CENTRE = 1500;
+const DEFAULT_BOOTSTRAP_SAMPLES = 200;
+const DEFAULT_SEED = 42;
+const MAX_ITERATIONS = 1000;
+const TOLERANCE = 1e-7;
+
+// Each model plays this many virtual games against a unit-strength opponent,
+// winning half of them. Keeps undefeated/winless models at a finite rating.
+const PRIOR_GAMES = 1;
+
+export interface PairwiseComparison {
+  modelA: string;
+  modelB: string;
+  // Share of the comparison won by model A, in [0, 1]
+  fractionForA: number;
+}
+
+export interface SolvedRating {
+  model_name: string;
+  elo: number;
+  sigma: number;
+  ci_low: number;
+  ci_high: number;
+  comparisons: number;
+}
+
+export interface SolveOptions {
+  // Mean rating of the returned models
+  centre?: number;
+  bootstrapSamples?: number;
+  seed?: number;
+}
+
+interface ComparisonRow {
+  model_a: string;
+  model_b: string;
+  fraction_for_a: number | null;
+  aggregated_plus_for_a: number | null;
+  aggregated_plus_for_b: number | null;
+}
+
+/**
+ * Convert an elo_comparisons row into a pairwise outcome.
+ * Falls back to the aggregated plus counts when fraction_for_a is missing.
+ */
+export function toPairwiseComparison(row: ComparisonRow): PairwiseComparison | null {
+  if (row.model_a === row.model_b) return null;
+
+  let fraction = row.fraction_for_a;
+  if (fraction === null || isNaN(fraction)) {
+    const plusA = row.aggregated_plus_for_a ?? 0;
+    const plusB = row.aggregated_plus_for_b ?? 0;
+    if (row.aggregated_plus_for_a === null && row.aggregated_plus_for_b === null) {
+      return null;
+    }
+    fraction = plusA + plusB > 0 ? plusA / (plusA + plusB) : 0.5;
+  }
+
+  return {
+    modelA: row.model_a,
+    modelB: row.model_b,
+    fractionForA: Math.min(1, Math.max(0, fraction)),
+  };
+}
+
+/**
+ * Small deterministic PRNG so bootstrap CIs are stable between requests.
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface PairTable {
+  // Model indices for each pair (i < j)
+  first: Int32Array;
+  second: Int32Array;
+  // Index into the pair arrays for each comparison
+  comparisonPair: Int32Array;
+  // Whether model A of the comparison is the pair's first model
+  comparisonAIsFirst: Uint8Array;
+}
+
+function buildPairTable(comparisons: PairwiseComparison[], modelIndex: Map<string, number>): PairTable {
+  const pairIndex = new Map<string, number>();
+  const first: number[] = [];
+  const second: number[] = [];
+  const comparisonPair = new Int32Array(comparisons.length);
+  const comparisonAIsFirst = new Uint8Array(comparisons.length);
+
+  comparisons.forEach((c, k) => {
+    const a = modelIndex.get(c.modelA)!;
+    const b = modelIndex.get(c.modelB)!;
+    const [i, j] = a < b ? [a, b] : [b, a];
+    const key = `${i},${j}`;
+    let p = pairIndex.get(key);
+    if (p === undefined) {
+      p = first.length;
+      pairIndex.set(key, p);
+      first.push(i);
+      second.push(j);
+    }
+    comparisonPair[k] = p;
+    comparisonAIsFirst[k] = a === i ? 1 : 0;
+  });
+
+  return {
+    first: Int32Array.from(first),
+    second: Int32Array.from(second),
+    comparisonPair,
+    comparisonAIsFirst,
+  };
+}
+
+/**
+ * Fit Bradley-Terry strengths from aggregated pair counts.
+ * games[p] is the number of comparisons for pair p, firstWins[p] the
+ * (fractional) wins of the pair's first model. Returns log-strengths.
+ */
+function fitStrengths(
+  numModels: number,
+  table: PairTable,
+  games: Float64Array,
+  firstWins: Float64Array,
+  initial?: Float64Array
+): Float64Array {
+  const wins = new Float64Array(numModels).fill(PRIOR_GAMES / 2);
+  for (let p = 0; p < games.length; p++) {
+    wins[table.first[p]] += firstWins[p];
+    wins[table.second[p]] += games[p] - firstWins[p];
+  }
+
+  let strength = new Float64Array(numModels);
+  for (let i = 0; i < numModels; i++) {
+    strength[i] = initial ? Math.exp(initial[i]) : 1;
+  }
+
+  const denom = new Float64Array(numModels);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    for (let i = 0; i < numModels; i++) {
+      denom[i] = PRIOR_GAMES / (strength[i] + 1);
+    }
+    for (let p = 0; p < games.length; p++) {
+      if (games[p] === 0) continue;
+      const i = table.first[p];
+      const j = table.second[p];
+      const share = games[p] / (strength[i] + strength[j]);
+      denom[i] += share;
+      denom[j] += share;
+    }
+
+    const next = new Float64Array(numModels);
+    let maxChange = 0;
+    for (let i = 0; i < numModels; i++) {
+      next[i] = wins[i] / denom[i];
+      maxChange = Math.max(maxChange, Math.abs(Math.log(next[i] / strength[i])));
+    }
+    strength = next;
+    if (maxChange < TOLERANCE) break;
+  }
+
+  const logStrength = new Float64Array(numModels);
+  for (let i = 0; i < numModels; i++) {
+    logStrength[i] = Math.log(strength[i]);
+  }
+  return logStrength;
+}
+
+function toElo(logStrength: Float64Array, centre: number): Float64Array {
+  const mean = logStrength.reduce((a, b) => a + b, 0) / (logStrength.length || 1);
+  return logStrength.map((s) => centre + (ELO_SCALE * (s - mean)) / Math.LN10);
+}
+
+function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Solve ratings for the given comparisons.
+ * Only models appearing in at least one comparison are rated.
+ * Results are sorted by Elo, highest first.
+ */
+export function solveRatings(
+  comparisons: PairwiseComparison[],
+  options: SolveOptions = {}
+): SolvedRating[] {
+  const centre = options.centre ?? DEFAULT_CENTRE;
+  const bootstrapSamples = options.bootstrapSamples ?? DEFAULT_BOOTSTRAP_SAMPLES;
+  const random = mulberry32(options.seed ?? DEFAULT_SEED);
+
+  const models: string[] = [];
+  const modelIndex = new Map<string, number>();
+  const comparisonCounts: number[] = [];
+  for (const c of comparisons) {
+    for (const m of [c.modelA, c.modelB]) {
+      if (!modelIndex.has(m)) {
+        modelIndex.set(m, models.length);
+        models.push(m);
+        comparisonCounts.push(0);
+      }
+      comparisonCounts[modelIndex.get(m)!]++;
+    }
+  }
+
+  if (models.length === 0) return [];
+
+  const table = buildPairTable(comparisons, modelIndex);
+  const numPairs = table.first.length;
+
+  const accumulate = (games: Float64Array, firstWins: Float64Array, k: number) => {
+    const p = table.comparisonPair[k];
+    const fraction = comparisons[k].fractionForA;
+    games[p] += 1;
+    firstWins[p] += table.comparisonAIsFirst[k] ? fraction : 1 - fraction;
+  };
+
+  const games = new Float64Array(numPairs);
+  const firstWins = new Float64Array(numPairs);
+  for (let k = 0; k < comparisons.length; k++) {
+    accumulate(games, firstWins, k);
+  }
+  const pointEstimate = fitStrengths(models.length, table, games, firstWins);
+  const elo = toElo(pointEstimate, centre);
+
+  // Bootstrap: resample comparisons with replacement and refit
+  const samples: number[][] = models.map(() => []);
+  for (let b = 0; b < bootstrapSamples; b++) {
+    const bootGames = new Float64Array(numPairs);
+    const bootWins = new Float64Array(numPairs);
+    for (let n = 0; n < comparisons.length; n++) {
+      accumulate(bootGames, bootWins, Math.floor(random() * comparisons.length));
+    }
+    const bootElo = toElo(
+      fitStrengths(models.length, table, bootGames, bootWins, pointEstimate),
+      centre
+    );
+    for (let i = 0; i < models.length; i++) {
+      samples[i].push(bootElo[i]);
+    }
+  }
+
+  const ratings: SolvedRating[] = models.map((model, i) => {
+    const sorted = [...samples[i]].sort((a, b) => a - b);
+    const mean = sorted.reduce((a, b) => a + b, 0) / (sorted.length || 1);
+    const variance =
+      sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, sorted.length - 1);
+
+    return {
+      model_name: model,
+      elo: elo[i],
+      sigma: sorted.length > 1 ? Math.sqrt(variance) : 0,
+      ci_low: sorted.length > 0 ? percentile(sorted, 0.025) : elo[i],
+      ci_high: sorted.length > 0 ? percentile(sorted, 0.975) : elo[i],
+      comparisons: comparisonCounts[i],
+    };
+  });
+
+  return ratings.sort((a, b) => b.elo - a.elo);
+}
+
+export interface NormAnchor {
+  model_name: string;
+  // Normalised score this model should map to
+  value: number;
+}
+
+export interface NormalizedRating extends SolvedRating {
+  elo_norm: number;
+  ci_low_norm: number;
+  ci_high_norm: number;
+}
+
+/**
+ * Linearly rescale ratings so the two anchor models land on their target values.
+ * Without usable anchors the lowest-rated model maps to 0 and the highest to 100.
+ */
+export function normalizeRatings(
+  ratings: SolvedRating[],
+  anchors: NormAnchor[] = []
+): NormalizedRating[] {
+  const eloByModel = new Map(ratings.map((r) => [r.model_name, r.elo]));
+  const usable = anchors.filter((a) => eloByModel.has(a.model_name));
+
+  let scale = 1;
+  let offset = 0;
+  const [first, second] = usable;
+  if (first && second && eloByModel.get(first.model_name) !== eloByModel.get(second.model_name)) {
+    const x1 = eloByModel.get(first.model_name)!;
+    const x2 = eloByModel.get(second.model_name)!;
+    scale = (second.value - first.value) / (x2 - x1);
+    offset = first.value - scale * x1;
+  } else if (ratings.length > 0) {
+    const elos = ratings.map((r) => r.elo);
+    const min = Math.min(...elos);
+    const range = Math.max(...elos) - min || 1;
+    scale = 100 / range;
+    offset = -min * scale;
+  }
+
+  return ratings.map((r) => ({
+    ...r,
+    elo_norm: r.elo * scale + offset,
+    ci_low_norm: r.ci_low * scale + offset,
+    ci_high_norm: r.ci_high * scale + offset,
+  }));
+}
@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "./db";
+import {
+  getCategoryLeaderboardRatings,
+  getLeaderboardRatings,
+  type LeaderboardRating,
+} from "./leaderboard";
+import { computeRankRanges } from "./rank-ranges";
+import { getRecentSnapshots } from "./leaderboard-snapshots";
+import { diffLeaderboards } from "./leaderboard-diff";
+import { modelPagePath } from "./model-links";
+import { getPromptCategories, sanitizeCategories } from "./prompts";
+import { escapeXml } from "./utils";
+
+// Atom and JSON Feed of completed evaluations and notable rank changes, so the
+// board can be followed from a feed reader.
+
+export const FEED_SIZE = 50;
+
+// Board positions a model must move between two snapshots to get a mention
+export const NOTABLE_RANK_CHANGE = 3;
+
+// Snapshots scanned for rank changes; the main page writes one per ratings update
+const RANK_CHANGE_SNAPSHOTS = 20;
+
+export interface FeedEntry {
+  id: string;
+  title: string;
+  summary: string;
+  // Site-relative
+  path: string;
+  updated: Date;
+}
+
+export interface FeedOptions {
+  // Rank and Elo come from the board re-solved for these prompt categories
+  categories: string[];
+  includeRankChanges: boolean;
+}
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  // Absolute URLs
+  siteUrl: string;
+  feedUrl: string;
+}
+
+function describeRating(
+  modelName: string,
+  ratings: LeaderboardRating[],
+  ranks: ReturnType<typeof computeRankRanges>
+): string {
+  const position = ratings.findIndex((r) => r.model_name === modelName);
+  const rating = ratings[position];
+  if (position === -1 || rating.elo === null) return "Not rated yet.";
+
+  const { best, tied } = ranks[position];
+  const ci =
+    rating.ci_low !== null && rating.ci_high !== null
+      ? ` (95% CI ${rating.ci_low.toFixed(0)}–${rating.ci_high.toFixed(0)})`
+      : "";
+  return `Rank #${tied ? "=" : ""}${best} of ${ratings.length}, Elo ${rating.elo.toFixed(0)}${ci}.`;
+}
+
+async function getEvaluationEntries(ratings: LeaderboardRating[]): Promise<FeedEntry[]> {
+  // Every completed run is needed to tell a model's first evaluation from a re-run
+  const runs = await prisma.runs.findMany({
+    where: { status: "completed", end_time: { not: null } },
+    orderBy: { end_time: "asc" },
+    select: { run_key: true, test_model: true, end_time: true },
+  });
+
+  const ranks = computeRankRanges(ratings);
+  const seen = new Set<string>();
+  const entries: FeedEntry[] = [];
+
+  for (const run of runs) {
+    const isFirst = !seen.has(run.test_model);
+    seen.add(run.test_model);
+    entries.push({
+      id: `run:${run.run_key}`,
+      title: isFirst ? `New on the board: ${run.test_model}` : `Re-evaluated: ${run.test_model}`,
+      summary: describeRating(run.test_model, ratings, ranks),
+      path: modelPagePath(run.test_model),
+      updated: run.end_time!,
+    });
+  }
+
+  return entries.slice(-FEED_SIZE);
+}
+
+async function getRankChangeEntries(): Promise<FeedEntry[]> {
+  const snapshots = await getRecentSnapshots(RANK_CHANGE_SNAPSHOTS);
+  const entries: FeedEntry[] = [];
+
+  // Newest first, so each snapshot is compared with the one after it
+  for (let i = 0; i < snapshots.length - 1; i++) {
+    const current = snapshots[i];
+    const previous = snapshots[i + 1];
+    const notable = diffLeaderboards(current.data.ratings, previous.data.ratings)
+      .map((r, idx) => ({ name: r.model_name, rank: idx + 1, delta: r.movement.rankDelta }))
+      .filter((r): r is { name: string; rank: number; delta: number } =>
+        r.delta !== null && Math.abs(r.delta) >= NOTABLE_RANK_CHANGE
+      );
+    if (notable.length === 0) continue;
+
+    const date = current.snapshotAt.toISOString().slice(0, 10);
+    entries.push({
+      id: `snapshot:${current.id}`,
+      title: `Rank changes: ${notable
+        .slice(0, 3)
+        .map((r) => `${r.name} ${r.delta > 0 ? "▲" : "▼"}${Math.abs(r.delta)}`)
+        .join(", ")}${notable.length > 3 ? ` and ${notable.length - 3} more` : ""}`,
+      summary: notable
+        .map((r) => `${r.name}: #${r.rank + r.delta} → #${r.rank}`)
+        .join("\n"),
+      path: `/history?at=${date}`,
+      updated: current.snapshotAt,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Feed entries, newest first.
+ */
+export async function getFeedEntries({ categories, includeRankChanges }: FeedOptions): Promise<FeedEntry[]> {
+  const ratings =
+    categories.length > 0
+      ? await getCategoryLeaderboardRatings(categories)
+      : await getLeaderboardRatings();
+
+  const [evaluations, rankChanges] = await Promise.all([
+    getEvaluationEntries(ratings),
+    // Snapshots only cover the global board
+    includeRankChanges && categories.length === 0 ? getRankChangeEntries() : Promise.resolve([]),
+  ]);
+
+  return [...evaluations, ...rankChanges]
+    .sort((a, b) => b.updated.getTime() - a.updated.getTime())
+    .slice(0, FEED_SIZE);
+}
+
+// Entry ids must be globally unique and stable, so they hang off the site URL
+function entryId(meta: FeedMeta, entry: FeedEntry): string {
+  return `${meta.siteUrl}/#${encodeURIComponent(entry.id)}`;
+}
+
+/**
+ * Render entries as an Atom 1.0 document.
+ */
+export function renderAtomFeed(entries: FeedEntry[], meta: FeedMeta): string {
+  const updated = (entries[0]?.updated ?? new Date()).toISOString();
+  const lines = [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <id>${escapeXml(meta.feedUrl)}</id>`,
+    `  <link rel="self" href="${escapeXml(meta.feedUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(meta.siteUrl)}"/>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>Open Writing Leaderboard</name></author>`,
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      `  <entry>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <id>${escapeXml(entryId(meta, entry))}</id>`,
+      `    <link href="${escapeXml(meta.siteUrl + entry.path)}"/>`,
+      `    <updated>${entry.updated.toISOString()}</updated>`,
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      `  </entry>`
+    );
+  }
+
+  lines.push(`</feed>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render entries as a JSON Feed 1.1 document.
+ */
+export function renderJsonFeed(entries: FeedEntry[], meta: FeedMeta): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.siteUrl,
+    feed_url: meta.feedUrl,
+    items: entries.map((entry) => ({
+      id: entryId(meta, entry),
+      url: meta.siteUrl + entry.path,
+      title: entry.title,
+      content_text: entry.summary,
+      date_published: entry.updated.toISOString(),
+    })),
+  });
+}
+
+const FEED_FORMATS = {
+  atom: { path: "/feed.xml", contentType: "application/atom+xml; charset=utf-8", render: renderAtomFeed },
+  json: { path: "/feed.json", contentType: "application/feed+json; charset=utf-8", render: renderJsonFeed },
+};
+
+/**
+ * Shared GET handler for /feed.xml and /feed.json. Accepts repeatable
+ * ?category= and ?changes=0 to leave out rank changes.
+ */
+export async function feedResponse(request: NextRequest, format: keyof typeof FEED_FORMATS) {
+  try {
+    const { searchParams, origin } = new URL(request.url);
+    const requested = searchParams.getAll("category");
+    const categories = sanitizeCategories(requested);
+
+    if (requested.length > 0 && categories.length === 0) {
+      return NextResponse.json(
+        { error: "Unknown category", availableCategories: getPromptCategories() },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getFeedEntries({
+      categories,
+      includeRankChanges: searchParams.get("changes") !== "0",
+    });
+
+    const siteUrl = (process.env.SITE_URL ?? origin).replace(/\/$/, "");
+    const { path, contentType, render } = FEED_FORMATS[format];
+    const query = searchParams.toString();
+    const meta: FeedMeta = {
+      title: categories.length > 0
+        ? `Open Writing Leaderboard — ${categories.join(", ")}`
+        : "Open Writing Leaderboard",
+      description: "Completed evaluations and notable rank changes",
+      siteUrl,
+      feedUrl: `${siteUrl}${path}${query ? `?${query}` : ""}`,
+    };
+
+    return new NextResponse(render(entries, meta), {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=300, s-maxage=900, stale-while-revalidate=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Error building feed:", error);
+    return NextResponse.json({ error: "Failed to build feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { prisma } from "./db";
+import { promptsData } from "./prompts";
+
+export interface HeadToHeadRecord {
+  matchups: number;
+  // Items where model A got more than half / less than half / exactly half the credit
+  wins: number;
+  losses: number;
+  draws: number;
+  // Mean fraction_for_a from model A's side, 0-1
+  winRate: number | null;
+}
+
+export interface CategoryHeadToHead extends HeadToHeadRecord {
+  category: string;
+}
+
+export interface HeadToHeadItem {
+  itemId: string;
+  category: string | null;
+  fractionForA: number | null;
+}
+
+export interface HeadToHead {
+  modelA: string;
+  modelB: string;
+  overall: HeadToHeadRecord;
+  categories: CategoryHeadToHead[];
+  items: HeadToHeadItem[];
+}
+
+function summarize(items: HeadToHeadItem[]): HeadToHeadRecord {
+  const fractions = items
+    .map((i) => i.fractionForA)
+    .filter((f): f is number => f !== null);
+
+  return {
+    matchups: items.length,
+    wins: fractions.filter((f) => f > 0.5).length,
+    losses: fractions.filter((f) => f < 0.5).length,
+    draws: fractions.filter((f) => f === 0.5).length,
+    winRate: fractions.length > 0 ? fractions.reduce((a, b) => a + b, 0) / fractions.length : null,
+  };
+}
+
+/**
+ * Every comparison between two models, from model A's side, with overall and
+ * per-prompt-category win rates.
+ */
+export async function getHeadToHead(modelA: string, modelB: string): Promise<HeadToHead> {
+  const rows = await prisma.elo_comparisons.findMany({
+    where: {
+      OR: [
+        { model_a: modelA, model_b: modelB },
+        { model_a: modelB, model_b: modelA },
+      ],
+    },
+    select: {
+      item_id: true,
+      model_a: true,
+      fraction_for_a: true,
+    },
+    orderBy: { item_id: "asc" },
+  });
+
+  const items: HeadToHeadItem[] = rows.map((r) => ({
+    itemId: r.item_id,
+    category: promptsData[r.item_id]?.category ?? null,
+    fractionForA:
+      r.fraction_for_a === null
+        ? null
+        : r.model_a === modelA
+        ? r.fraction_for_a
+        : 1 - r.fraction_for_a,
+  }));
+
+  const byCategory = new Map<string, HeadToHeadItem[]>();
+  for (const item of items) {
+    if (!item.category) continue;
+    const list = byCategory.get(item.category) ?? [];
+    list.push(item);
+    byCategory.set(item.category, list);
+  }
+
+  const categories = [...byCategory.entries()]
+    .map(([category, categoryItems]) => ({ category, ...summarize(categoryItems) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  return {
+    modelA,
+    modelB,
+    overall: summarize(items),
+    categories,
+    items,
+  };
+}
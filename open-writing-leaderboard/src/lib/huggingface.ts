@@ -1,6 +1,6 @@
 const HF_API_BASE = "https://huggingface.co/api";
 
-interface HFModelInfo {
+export interface HFModelInfo {
   id: string;
   author?: string;
   sha?: string;
@@ -11,6 +11,18 @@ interface HFModelInfo {
   library_name?: string;
   tags?: string[];
   pipeline_tag?: string;
+  // Used for leaderboard metadata (see model-metadata.ts)
+  safetensors?: { total?: number };
+  gguf?: { total?: number; architecture?: string };
+  config?: {
+    model_type?: string;
+    architectures?: string[];
+    quantization_config?: { quant_method?: string; bits?: number };
+  };
+  cardData?: {
+    license?: string;
+    base_model?: string | string[];
+  };
   // Many more fields available but these are what we need
 }
 
@@ -99,6 +111,25 @@ export async function validateHuggingFaceModel(
   }
 }
 
+/**
+ * Fetch a public model's info from the Hugging Face API, or null if it can't
+ * be read (missing, gated, or the API is unavailable).
+ */
+export async function fetchHuggingFaceModelInfo(repoId: string): Promise<HFModelInfo | null> {
+  try {
+    const response = await fetch(`${HF_API_BASE}/models/${repoId}`, {
+      headers: {
+        Accept: "application/json",
+      },
+    });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error("HuggingFace API error:", error);
+    return null;
+  }
+}
+
 /**
  * Validate a GGUF URL
  * We only allow GGUF files from trusted sources (HuggingFace)
@@ -0,0 +1,175 @@
+import { unstable_cache } from "next/cache";
+import { prisma } from "./db";
+import { Prisma } from "@/generated/prisma/client";
+import { promptsData } from "./prompts";
+import { EXCLUDED_SCORE_FIELDS } from "./sample-scores";
+
+// Where judges disagree on rubric scores: variance across judges per task and
+// dimension, computed over each model's latest completed run. The tasks with
+// the highest mean variance are the ones most worth a human read.
+
+export const CONTROVERSIAL_SAMPLES_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+export interface ControversialSample {
+  taskId: number;
+  model: string;
+  promptId: string;
+  category: string | null;
+  // Mean variance across judges of the dimensions two or more judges scored
+  disagreement: number;
+  judgeCount: number;
+  topDimension: string;
+  topVariance: number;
+  judges: { judge_model_name: string; judge_scores: Record<string, unknown> | null }[];
+}
+
+export interface DimensionDisagreement {
+  dimension: string;
+  // Mean over tasks of the variance across judges
+  meanVariance: number;
+  tasks: number;
+}
+
+export interface JudgeDisagreement {
+  model: string | null;
+  samples: ControversialSample[];
+  dimensions: DimensionDisagreement[];
+}
+
+/**
+ * Per task and dimension variance across judges, as a SQL fragment for a CTE.
+ * Only numeric 0–20 scores count, and dimensions one judge scored are left out.
+ */
+function dimensionVarianceSql(model: string | null) {
+  const modelCondition = model ? Prisma.sql`AND r.test_model = ${model}` : Prisma.empty;
+  return Prisma.sql`
+    latest AS (
+      SELECT DISTINCT ON (r.test_model) r.run_key, r.test_model
+      FROM runs r
+      WHERE r.status = 'completed' ${modelCondition}
+      ORDER BY r.test_model, r.start_time DESC NULLS LAST
+    ),
+    scores AS (
+      SELECT jr.task_id, s.key AS dimension, (s.value::text)::float8 AS score
+      FROM judge_results jr
+      JOIN tasks t ON t.id = jr.task_id
+      JOIN latest l ON l.run_key = t.run_key
+      CROSS JOIN LATERAL json_each(
+        CASE WHEN json_typeof(jr.judge_scores) = 'object' THEN jr.judge_scores ELSE '{}'::json END
+      ) AS s
+      WHERE t.status = 'completed'
+        AND json_typeof(s.value) = 'number'
+        AND left(s.key, 1) <> '_'
+        AND s.key NOT IN (${Prisma.join([...EXCLUDED_SCORE_FIELDS])})
+    ),
+    dims AS (
+      SELECT task_id, dimension, var_pop(score) AS variance, count(*) AS judges
+      FROM scores
+      WHERE score BETWEEN 0 AND 20
+      GROUP BY task_id, dimension
+      HAVING count(*) > 1
+    )
+  `;
+}
+
+async function computeJudgeDisagreement(model: string | null, take: number): Promise<JudgeDisagreement> {
+  const dims = dimensionVarianceSql(model);
+
+  const [taskRows, dimensionRows] = await Promise.all([
+    prisma.$queryRaw<
+      {
+        task_id: number;
+        test_model: string;
+        prompt_id: string;
+        disagreement: number;
+        judges: number;
+        top_dimension: string;
+        top_variance: number;
+      }[]
+    >`
+      WITH ${dims},
+      ranked AS (
+        SELECT task_id,
+               avg(variance) AS disagreement,
+               max(judges)::int AS judges,
+               (array_agg(dimension ORDER BY variance DESC))[1] AS top_dimension,
+               max(variance) AS top_variance
+        FROM dims
+        GROUP BY task_id
+        ORDER BY disagreement DESC, task_id DESC
+        LIMIT ${take}
+      )
+      SELECT k.task_id, l.test_model, t.prompt_id, k.disagreement, k.judges, k.top_dimension, k.top_variance
+      FROM ranked k
+      JOIN tasks t ON t.id = k.task_id
+      JOIN latest l ON l.run_key = t.run_key
+      ORDER BY k.disagreement DESC, k.task_id DESC
+    `,
+    prisma.$queryRaw<{ dimension: string; mean_variance: number; tasks: number }[]>`
+      WITH ${dims}
+      SELECT dimension, avg(variance) AS mean_variance, count(*)::int AS tasks
+      FROM dims
+      GROUP BY dimension
+      ORDER BY mean_variance DESC
+    `,
+  ]);
+
+  const judgeRows = await prisma.judge_results.findMany({
+    where: { task_id: { in: taskRows.map((row) => row.task_id) } },
+    select: { task_id: true, judge_model_name: true, judge_scores: true },
+    orderBy: { judge_order_index: "asc" },
+  });
+  const judgesByTask = new Map<number, ControversialSample["judges"]>();
+  for (const row of judgeRows) {
+    if (!row.judge_scores) continue;
+    const judges = judgesByTask.get(row.task_id) ?? [];
+    judges.push({
+      judge_model_name: row.judge_model_name,
+      judge_scores: row.judge_scores as Record<string, unknown> | null,
+    });
+    judgesByTask.set(row.task_id, judges);
+  }
+
+  return {
+    model,
+    samples: taskRows.map((row) => ({
+      taskId: row.task_id,
+      model: row.test_model,
+      promptId: row.prompt_id,
+      category: promptsData[row.prompt_id]?.category ?? null,
+      disagreement: row.disagreement,
+      judgeCount: row.judges,
+      topDimension: row.top_dimension,
+      topVariance: row.top_variance,
+      judges: judgesByTask.get(row.task_id) ?? [],
+    })),
+    dimensions: dimensionRows.map((row) => ({
+      dimension: row.dimension,
+      meanVariance: row.mean_variance,
+      tasks: row.tasks,
+    })),
+  };
+}
+
+/**
+ * The samples judges disagree on most, for one model or across every model,
+ * with each judge's scores, plus the rubric dimensions with the most
+ * disagreement overall. The aggregation reads every judge result, so it is
+ * cached until a run completes or is removed.
+ */
+export async function getJudgeDisagreement(
+  model: string | null,
+  limit = CONTROVERSIAL_SAMPLES_LIMIT
+): Promise<JudgeDisagreement> {
+  const take = Math.min(Math.max(1, limit), MAX_LIMIT);
+  const runs = await prisma.runs.aggregate({
+    where: { status: "completed" },
+    _max: { end_time: true },
+    _count: true,
+  });
+  const runsVersion = `${runs._count}:${runs._max.end_time?.toISOString() ?? ""}`;
+
+  const compute = unstable_cache(computeJudgeDisagreement, ["judge-disagreement", runsVersion]);
+  return compute(model, take);
+}
@@ -0,0 +1,162 @@
+import { unstable_cache } from "next/cache";
+import { prisma } from "./db";
+import type { PairwiseComparison, SolvedRating } from "./elo-solver";
+import {
+  getLatestRatingsUpdate,
+  getLeaderboardRatings,
+  solveOnPublishedScale,
+  type LeaderboardRating,
+} from "./leaderboard";
+import { kendallTau, spearmanCorrelation } from "./rank-correlation";
+
+// Label for the published (all judges blended) board in correlation results
+export const PUBLISHED_BOARD = "Published";
+
+export interface JudgeLeaderboard {
+  judge: string;
+  comparisons: number;
+  ratings: SolvedRating[];
+}
+
+export interface JudgeCorrelation {
+  boardA: string;
+  boardB: string;
+  // Models rated on both boards
+  models: number;
+  spearman: number | null;
+  kendall: number | null;
+}
+
+export interface JudgeLeaderboards {
+  published: LeaderboardRating[];
+  judges: JudgeLeaderboard[];
+  correlations: JudgeCorrelation[];
+}
+
+interface JudgeOutcomeRow {
+  model_a: string;
+  model_b: string;
+  judge_name: string | null;
+  outcome: number | null;
+  plus_for_test: number | null;
+  plus_for_other: number | null;
+}
+
+/**
+ * One judge's verdict as a share for model A. In aggregated_judge_responses
+ * "test" is always model_a. Uses `outcome` when it is already a share, and
+ * the judge's plus counts otherwise.
+ */
+function toJudgeFraction(row: JudgeOutcomeRow): number | null {
+  if (row.outcome !== null && Number.isFinite(row.outcome) && row.outcome >= 0 && row.outcome <= 1) {
+    return row.outcome;
+  }
+  if (row.plus_for_test === null && row.plus_for_other === null) return null;
+  const plusA = row.plus_for_test ?? 0;
+  const plusB = row.plus_for_other ?? 0;
+  return plusA + plusB > 0 ? plusA / (plusA + plusB) : 0.5;
+}
+
+/**
+ * Per-judge comparisons, read straight out of the JSON column so the judges'
+ * reasoning text never leaves the database.
+ */
+async function loadJudgeComparisons(models: Set<string>): Promise<Map<string, PairwiseComparison[]>> {
+  const rows = await prisma.$queryRaw<JudgeOutcomeRow[]>`
+    SELECT
+      c.model_a,
+      c.model_b,
+      j->>'judge_name' AS judge_name,
+      CASE WHEN json_typeof(j->'outcome') = 'number' THEN (j->>'outcome')::float8 END AS outcome,
+      CASE WHEN json_typeof(j->'plus_for_test') = 'number' THEN (j->>'plus_for_test')::float8 END AS plus_for_test,
+      CASE WHEN json_typeof(j->'plus_for_other') = 'number' THEN (j->>'plus_for_other')::float8 END AS plus_for_other
+    FROM elo_comparisons c
+    CROSS JOIN LATERAL json_array_elements(
+      CASE WHEN json_typeof(c.aggregated_judge_responses) = 'array'
+        THEN c.aggregated_judge_responses ELSE '[]'::json END
+    ) AS j
+  `;
+
+  const byJudge = new Map<string, PairwiseComparison[]>();
+  for (const row of rows) {
+    if (!row.judge_name || row.model_a === row.model_b) continue;
+    if (!models.has(row.model_a) || !models.has(row.model_b)) continue;
+    const fraction = toJudgeFraction(row);
+    if (fraction === null) continue;
+
+    const list = byJudge.get(row.judge_name) ?? [];
+    list.push({ modelA: row.model_a, modelB: row.model_b, fractionForA: fraction });
+    byJudge.set(row.judge_name, list);
+  }
+  return byJudge;
+}
+
+function correlate(
+  boardA: string,
+  eloA: Map<string, number>,
+  boardB: string,
+  eloB: Map<string, number>
+): JudgeCorrelation {
+  const shared = [...eloA.keys()].filter((m) => eloB.has(m));
+  const x = shared.map((m) => eloA.get(m)!);
+  const y = shared.map((m) => eloB.get(m)!);
+  return {
+    boardA,
+    boardB,
+    models: shared.length,
+    spearman: spearmanCorrelation(x, y),
+    kendall: kendallTau(x, y),
+  };
+}
+
+async function solveJudgeLeaderboards(): Promise<JudgeLeaderboards> {
+  const published = await getLeaderboardRatings();
+  const byJudge = await loadJudgeComparisons(new Set(published.map((r) => r.model_name)));
+
+  // Point estimates only: the columns show rank and Elo, not intervals
+  const judges: JudgeLeaderboard[] = [...byJudge.entries()]
+    .map(([judge, comparisons]) => ({
+      judge,
+      comparisons: comparisons.length,
+      ratings: solveOnPublishedScale(comparisons, published, { bootstrapSamples: 0 }),
+    }))
+    .sort((a, b) => b.comparisons - a.comparisons || a.judge.localeCompare(b.judge));
+
+  const boards: [string, Map<string, number>][] = [
+    [
+      PUBLISHED_BOARD,
+      new Map(
+        published
+          .filter((r): r is LeaderboardRating & { elo: number } => r.elo !== null)
+          .map((r) => [r.model_name, r.elo])
+      ),
+    ],
+    ...judges.map(
+      (j) => [j.judge, new Map(j.ratings.map((r) => [r.model_name, r.elo]))] as [string, Map<string, number>]
+    ),
+  ];
+
+  const correlations: JudgeCorrelation[] = [];
+  for (let i = 0; i < boards.length; i++) {
+    for (let k = i + 1; k < boards.length; k++) {
+      correlations.push(correlate(boards[i][0], boards[i][1], boards[k][0], boards[k][1]));
+    }
+  }
+
+  return { published, judges, correlations };
+}
+
+/**
+ * Ratings re-solved from each judge's verdicts alone, plus rank correlations
+ * between every pair of judges and against the published board. Every judge
+ * response is parsed and solved, so results are cached until ratings are next
+ * published.
+ */
+export async function getJudgeLeaderboards(): Promise<JudgeLeaderboards> {
+  const lastUpdated = await getLatestRatingsUpdate();
+  const solve = unstable_cache(solveJudgeLeaderboards, [
+    "judge-leaderboards",
+    lastUpdated?.toISOString() ?? "",
+  ]);
+  return solve();
+}
@@ -0,0 +1,42 @@
+import type { LeaderboardRating } from "./leaderboard";
+
+export interface RankMovement {
+  // Positive when the model moved up the board
+  rankDelta: number | null;
+  eloDelta: number | null;
+  // Model was not on the previous board
+  isNew: boolean;
+}
+
+export type RatingWithMovement<T extends LeaderboardRating = LeaderboardRating> = T & {
+  movement: RankMovement;
+};
+
+/**
+ * Compare the current board against a previous one. Ranks are board positions,
+ * so both lists must already be sorted by Elo (highest first).
+ */
+export function diffLeaderboards<T extends LeaderboardRating>(
+  current: T[],
+  previous: LeaderboardRating[]
+): RatingWithMovement<T>[] {
+  const previousByModel = new Map(
+    previous.map((r, idx) => [r.model_name, { rank: idx + 1, elo: r.elo }])
+  );
+
+  return current.map((rating, idx) => {
+    const before = previousByModel.get(rating.model_name);
+    if (!before) {
+      return { ...rating, movement: { rankDelta: null, eloDelta: null, isNew: true } };
+    }
+
+    return {
+      ...rating,
+      movement: {
+        rankDelta: before.rank - (idx + 1),
+        eloDelta: rating.elo !== null && before.elo !== null ? rating.elo - before.elo : null,
+        isNew: false,
+      },
+    };
+  });
+}
@@ -0,0 +1,161 @@
+import { prisma, type Db } from "./db";
+import type { Prisma } from "@/generated/prisma/client";
+import { getLatestRatingsUpdate, getLeaderboardRatings, type LeaderboardRating } from "./leaderboard";
+
+// Snapshots live in leaderboard_cache.data with this shape
+export interface LeaderboardSnapshotData {
+  // Latest elo_ratings.last_updated at the time of the snapshot
+  lastUpdated: string | null;
+  ratings: LeaderboardRating[];
+}
+
+export interface LeaderboardSnapshot {
+  id: number;
+  snapshotAt: Date;
+  data: LeaderboardSnapshotData;
+}
+
+export interface LeaderboardSnapshotSummary {
+  id: number;
+  snapshotAt: Date;
+}
+
+function parseSnapshotData(data: unknown): LeaderboardSnapshotData | null {
+  if (!data || typeof data !== "object") return null;
+  const candidate = data as Partial<LeaderboardSnapshotData>;
+  if (!Array.isArray(candidate.ratings)) return null;
+  return {
+    lastUpdated: typeof candidate.lastUpdated === "string" ? candidate.lastUpdated : null,
+    ratings: candidate.ratings,
+  };
+}
+
+function toSnapshot(row: { id: number; snapshot_at: Date | null; data: unknown }): LeaderboardSnapshot | null {
+  const data = parseSnapshotData(row.data);
+  if (!data || !row.snapshot_at) return null;
+  return { id: row.id, snapshotAt: row.snapshot_at, data };
+}
+
+async function insertSnapshot(db: Db): Promise<LeaderboardSnapshot> {
+  const [ratings, lastUpdated] = await Promise.all([
+    getLeaderboardRatings(db),
+    getLatestRatingsUpdate(db),
+  ]);
+
+  const data: LeaderboardSnapshotData = {
+    lastUpdated: lastUpdated?.toISOString() ?? null,
+    ratings,
+  };
+
+  const row = await db.leaderboard_cache.create({
+    data: { data: data as unknown as Prisma.InputJsonValue },
+  });
+
+  return { id: row.id, snapshotAt: row.snapshot_at ?? new Date(), data };
+}
+
+/**
+ * Write a snapshot of the current elo_ratings table.
+ */
+export async function writeSnapshot(): Promise<LeaderboardSnapshot> {
+  return insertSnapshot(prisma);
+}
+
+/**
+ * Whether elo_ratings has been updated since the latest snapshot. Only the
+ * snapshot's lastUpdated is read, not its ratings.
+ */
+async function isSnapshotStale(db: Db): Promise<boolean> {
+  const [lastUpdated, [latest]] = await Promise.all([
+    getLatestRatingsUpdate(db),
+    db.$queryRaw<{ last_updated: string | null }[]>`
+      SELECT data->>'lastUpdated' AS last_updated
+      FROM leaderboard_cache
+      WHERE snapshot_at <= now() AND json_typeof(data->'ratings') = 'array'
+      ORDER BY snapshot_at DESC
+      LIMIT 1
+    `,
+  ]);
+  return lastUpdated !== null && lastUpdated.toISOString() !== latest?.last_updated;
+}
+
+/**
+ * Write a snapshot only if elo_ratings has changed since the latest one.
+ * Returns the new snapshot, or null if nothing changed. This runs on every
+ * home page view, so the unlocked check comes first and a transaction is only
+ * opened when ratings have changed. Concurrent writers are serialised by an
+ * advisory lock; those that don't get it skip, since the holder is already
+ * writing the snapshot, and the holder re-checks and reads the ratings inside
+ * the transaction.
+ */
+export async function ensureLatestSnapshot(): Promise<LeaderboardSnapshot | null> {
+  if (!(await isSnapshotStale(prisma))) return null;
+
+  return prisma.$transaction(async (tx) => {
+    const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+      SELECT pg_try_advisory_xact_lock(hashtext('leaderboard_snapshot')) AS locked
+    `;
+    if (!locked || !(await isSnapshotStale(tx))) return null;
+
+    return insertSnapshot(tx);
+  });
+}
+
+export async function getLatestSnapshot(): Promise<LeaderboardSnapshot | null> {
+  return getSnapshotAt(new Date());
+}
+
+/**
+ * The most recent snapshot taken at or before the given time.
+ */
+export async function getSnapshotAt(at: Date): Promise<LeaderboardSnapshot | null> {
+  return findSnapshotAt(prisma, at);
+}
+
+async function findSnapshotAt(db: Db, at: Date): Promise<LeaderboardSnapshot | null> {
+  const rows = await db.leaderboard_cache.findMany({
+    where: { snapshot_at: { lte: at } },
+    orderBy: { snapshot_at: "desc" },
+    take: 5,
+  });
+
+  // Skip any rows that don't hold a leaderboard snapshot
+  for (const row of rows) {
+    const snapshot = toSnapshot(row);
+    if (snapshot) return snapshot;
+  }
+  return null;
+}
+
+/**
+ * The most recent snapshots with their data, newest first.
+ */
+export async function getRecentSnapshots(limit: number): Promise<LeaderboardSnapshot[]> {
+  const rows = await prisma.leaderboard_cache.findMany({
+    orderBy: { snapshot_at: "desc" },
+    take: limit,
+  });
+  return rows.map(toSnapshot).filter((s): s is LeaderboardSnapshot => s !== null);
+}
+
+export async function listSnapshots(limit = 200): Promise<LeaderboardSnapshotSummary[]> {
+  const rows = await prisma.leaderboard_cache.findMany({
+    orderBy: { snapshot_at: "desc" },
+    take: limit,
+    select: { id: true, snapshot_at: true },
+  });
+
+  return rows
+    .filter((r): r is { id: number; snapshot_at: Date } => r.snapshot_at !== null)
+    .map((r) => ({ id: r.id, snapshotAt: r.snapshot_at }));
+}
+
+/**
+ * Parse a ?at= value. A bare date (YYYY-MM-DD) means the end of that day, UTC.
+ */
+export function parseSnapshotDate(value: string | undefined | null): Date | null {
+  if (!value) return null;
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,128 @@
+import { unstable_cache } from "next/cache";
+import { prisma, type Db } from "./db";
+import type { Prisma } from "@/generated/prisma/client";
+import {
+  solveRatings,
+  toPairwiseComparison,
+  type PairwiseComparison,
+  type SolveOptions,
+  type SolvedRating,
+} from "./elo-solver";
+import { getPromptIdsForCategories } from "./prompts";
+
+export interface LeaderboardRating {
+  model_name: string;
+  elo: number | null;
+  elo_norm: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+/**
+ * Global leaderboard as published in elo_ratings.
+ */
+export async function getLeaderboardRatings(db: Db = prisma): Promise<LeaderboardRating[]> {
+  return db.elo_ratings.findMany({
+    orderBy: {
+      elo: "desc",
+    },
+    select: {
+      model_name: true,
+      elo: true,
+      elo_norm: true,
+      ci_low: true,
+      ci_high: true,
+    },
+  });
+}
+
+/**
+ * Latest elo_ratings.last_updated, which changes whenever ratings are published.
+ */
+export async function getLatestRatingsUpdate(db: Db = prisma): Promise<Date | null> {
+  const result = await db.elo_ratings.aggregate({
+    _max: { last_updated: true },
+  });
+  return result._max.last_updated;
+}
+
+/**
+ * Load elo_comparisons rows as solver input, optionally restricted to a set of models.
+ */
+export async function loadPairwiseComparisons(
+  where: Prisma.elo_comparisonsWhereInput = {},
+  models?: Set<string>
+): Promise<PairwiseComparison[]> {
+  const rows = await prisma.elo_comparisons.findMany({
+    where,
+    select: {
+      model_a: true,
+      model_b: true,
+      fraction_for_a: true,
+      aggregated_plus_for_a: true,
+      aggregated_plus_for_b: true,
+    },
+  });
+
+  return rows
+    .map(toPairwiseComparison)
+    .filter(
+      (c): c is PairwiseComparison =>
+        c !== null && (!models || (models.has(c.modelA) && models.has(c.modelB)))
+    );
+}
+
+/**
+ * Solve ratings centred on the published mean Elo of the rated models, so
+ * re-solved numbers sit on the same scale as elo_ratings.
+ */
+export function solveOnPublishedScale(
+  comparisons: PairwiseComparison[],
+  published: LeaderboardRating[],
+  options: Omit<SolveOptions, "centre"> = {}
+): SolvedRating[] {
+  const publishedElo = new Map(published.map((r) => [r.model_name, r.elo]));
+  const rated = new Set(comparisons.flatMap((c) => [c.modelA, c.modelB]));
+  const elos = [...rated]
+    .map((m) => publishedElo.get(m))
+    .filter((e): e is number => e !== null && e !== undefined);
+  const centre = elos.length > 0 ? elos.reduce((a, b) => a + b, 0) / elos.length : undefined;
+
+  return solveRatings(comparisons, { ...options, centre });
+}
+
+async function solveCategoryRatings(categories: string[]): Promise<LeaderboardRating[]> {
+  const promptIds = getPromptIdsForCategories(categories);
+  if (promptIds.length === 0) return [];
+
+  // Only rate models that are on the published leaderboard
+  const published = await getLeaderboardRatings();
+  const comparisons = await loadPairwiseComparisons(
+    { item_id: { in: promptIds } },
+    new Set(published.map((r) => r.model_name))
+  );
+
+  return solveOnPublishedScale(comparisons, published).map((r) => ({
+    model_name: r.model_name,
+    elo: r.elo,
+    elo_norm: null,
+    ci_low: r.ci_low,
+    ci_high: r.ci_high,
+  }));
+}
+
+/**
+ * Leaderboard re-solved from only the comparisons whose item belongs to one of
+ * the given prompt categories. The bootstrap solve is CPU-bound, so results
+ * are cached per category set until ratings are next published.
+ */
+export async function getCategoryLeaderboardRatings(
+  categories: string[]
+): Promise<LeaderboardRating[]> {
+  const lastUpdated = await getLatestRatingsUpdate();
+  const solve = unstable_cache(solveCategoryRatings, [
+    "category-leaderboard-ratings",
+    lastUpdated?.toISOString() ?? "",
+  ]);
+  return solve([...new Set(categories)].sort());
+}
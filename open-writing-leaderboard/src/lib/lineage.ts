@@ -0,0 +1,81 @@
+import type { ModelMetadata } from "./model-filters";
+
+// Model families from Hugging Face base_model metadata: each model is linked to
+// its base, and models sharing the topmost known ancestor form a family.
+// Client-safe.
+
+// Guards against long or cyclic base_model chains
+const MAX_LINEAGE_DEPTH = 10;
+
+interface LineageInput {
+  model_name: string;
+  elo: number | null;
+  metadata?: ModelMetadata | null;
+}
+
+export interface Lineage {
+  // Topmost known ancestor (or the model itself), which names the family
+  family: string;
+  // Closest ancestor with an Elo on this board
+  ratedBase: string | null;
+  baseElo: number | null;
+  // Elo relative to ratedBase
+  delta: number | null;
+}
+
+/**
+ * Lineage of every model, keyed by model name. Names are matched
+ * case-insensitively since base_model entries don't always match the repo's
+ * capitalisation.
+ */
+export function buildLineage(ratings: LineageInput[]): Map<string, Lineage> {
+  const byKey = new Map(ratings.map((r) => [r.model_name.toLowerCase(), r]));
+  const lineage = new Map<string, Lineage>();
+
+  for (const rating of ratings) {
+    const seen = new Set([rating.model_name.toLowerCase()]);
+    let family = rating.model_name;
+    let ratedBase: LineageInput | null = null;
+    let parent = rating.metadata?.baseModel ?? null;
+
+    while (parent && !seen.has(parent.toLowerCase()) && seen.size <= MAX_LINEAGE_DEPTH) {
+      const key = parent.toLowerCase();
+      seen.add(key);
+      const ancestor = byKey.get(key);
+      family = ancestor?.model_name ?? parent;
+      if (!ratedBase && ancestor && ancestor.elo !== null) ratedBase = ancestor;
+      // Models off the board have no cached metadata, so the chain ends there
+      parent = ancestor?.metadata?.baseModel ?? null;
+    }
+
+    lineage.set(rating.model_name, {
+      family,
+      ratedBase: ratedBase?.model_name ?? null,
+      baseElo: ratedBase?.elo ?? null,
+      delta: ratedBase && rating.elo !== null ? rating.elo - ratedBase.elo! : null,
+    });
+  }
+
+  return lineage;
+}
+
+/**
+ * Split items into families, keeping the order in which each family first
+ * appears and the item order within it. Items without a family stand alone.
+ */
+export function groupByFamily<T>(items: T[], familyOf: (item: T) => string | null): T[][] {
+  const groups: T[][] = [];
+  const byFamily = new Map<string, T[]>();
+  for (const item of items) {
+    const family = familyOf(item)?.toLowerCase();
+    const existing = family ? byFamily.get(family) : undefined;
+    if (existing) {
+      existing.push(item);
+      continue;
+    }
+    const group = [item];
+    groups.push(group);
+    if (family) byFamily.set(family, group);
+  }
+  return groups;
+}
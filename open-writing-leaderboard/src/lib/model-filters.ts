@@ -0,0 +1,105 @@
+// Model metadata shown on the leaderboard, and the filters and sort keys over
+// it. Client-safe; the metadata itself is gathered by model-metadata.ts.
+
+export interface ModelMetadata {
+  // Total parameter count
+  parameters: number | null;
+  // Hugging Face model_type, e.g. "llama", "qwen2"
+  architecture: string | null;
+  baseModel: string | null;
+  // SPDX-style id as used on Hugging Face, e.g. "apache-2.0"
+  license: string | null;
+  // e.g. "Q4_K_M", "awq", "fp8"; null for full-precision weights
+  quantization: string | null;
+  fetchedAt: string;
+  // Set when no Hugging Face info could be read, so only the name was used
+  partial?: boolean;
+}
+
+// Upper bounds offered by the size filter, in billions of parameters
+export const PARAMETER_SIZE_LIMITS = [3, 8, 15, 35, 75];
+
+// Filter value for models with unquantised weights
+export const FULL_PRECISION = "none";
+
+export interface MetadataFilters {
+  maxParams: number | null;
+  license: string | null;
+  architecture: string | null;
+  quantization: string | null;
+}
+
+export const METADATA_FILTER_PARAMS = {
+  maxParams: "maxParams",
+  license: "license",
+  architecture: "arch",
+  quantization: "quant",
+} as const;
+
+export type MetadataSortKey = "rank" | "parameters" | "architecture" | "baseModel" | "license" | "quantization";
+
+/**
+ * Read filters from the query string. Unknown sizes are ignored.
+ */
+export function parseMetadataFilters(searchParams: Pick<URLSearchParams, "get">): MetadataFilters {
+  const maxParams = Number(searchParams.get(METADATA_FILTER_PARAMS.maxParams));
+  return {
+    maxParams: PARAMETER_SIZE_LIMITS.includes(maxParams) ? maxParams : null,
+    license: searchParams.get(METADATA_FILTER_PARAMS.license),
+    architecture: searchParams.get(METADATA_FILTER_PARAMS.architecture),
+    quantization: searchParams.get(METADATA_FILTER_PARAMS.quantization),
+  };
+}
+
+export function hasMetadataFilters(filters: MetadataFilters): boolean {
+  return Object.values(filters).some((v) => v !== null);
+}
+
+/**
+ * Models without metadata only pass when no filter is set; a model with an
+ * unknown size never passes a size filter.
+ */
+export function matchesMetadataFilters(metadata: ModelMetadata | null | undefined, filters: MetadataFilters): boolean {
+  if (!hasMetadataFilters(filters)) return true;
+  if (!metadata) return false;
+
+  if (filters.maxParams !== null) {
+    if (metadata.parameters === null || metadata.parameters > filters.maxParams * 1e9) return false;
+  }
+  if (filters.license !== null && metadata.license !== filters.license) return false;
+  if (filters.architecture !== null && metadata.architecture !== filters.architecture) return false;
+  if (filters.quantization !== null) {
+    const quantization = metadata.quantization ?? FULL_PRECISION;
+    if (quantization !== filters.quantization) return false;
+  }
+  return true;
+}
+
+/**
+ * Sorted distinct values of one metadata field across models.
+ */
+export function distinctMetadataValues(
+  metadata: (ModelMetadata | null | undefined)[],
+  field: "license" | "architecture" | "quantization"
+): string[] {
+  const values = new Set<string>();
+  for (const m of metadata) {
+    const value = m?.[field];
+    if (value) values.add(value);
+  }
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Compact parameter count, e.g. 7.2e9 → "7.2B", 1.2e12 → "1.2T".
+ */
+export function formatParameterCount(parameters: number | null): string {
+  if (parameters === null) return "—";
+  if (parameters >= 1e12) return `${trim(parameters / 1e12)}T`;
+  if (parameters >= 1e9) return `${trim(parameters / 1e9)}B`;
+  return `${trim(parameters / 1e6)}M`;
+}
+
+function trim(value: number): string {
+  return value >= 100 ? value.toFixed(0) : value.toFixed(1).replace(/\.0$/, "");
+}
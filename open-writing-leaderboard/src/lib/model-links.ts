@@ -0,0 +1,83 @@
+export const MODEL_PAGE_TABS = ["overview", "analysis", "samples", "matchups"] as const;
+
+export type ModelPageTab = (typeof MODEL_PAGE_TABS)[number];
+
+export function isModelPageTab(value: string | undefined | null): value is ModelPageTab {
+  return MODEL_PAGE_TABS.includes(value as ModelPageTab);
+}
+
+/**
+ * Path to a model's detail page. Hugging Face style names ("org/model") keep
+ * their slash so the URL reads naturally; anything else (e.g. GGUF URLs) is
+ * encoded as a single segment. A run key opens the page on that run.
+ */
+export function modelPagePath(modelName: string, tab?: ModelPageTab, runKey?: string | null): string {
+  const isRepoId = /^[\w.-]+\/[\w.-]+$/.test(modelName);
+  const path = isRepoId
+    ? modelName.split("/").map(encodeURIComponent).join("/")
+    : encodeURIComponent(modelName);
+  const params = new URLSearchParams();
+  if (tab && tab !== "overview") params.set("tab", tab);
+  if (runKey) params.set("run", runKey);
+  const query = params.toString();
+  return `/models/${path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Inverse of modelPagePath for the [...modelName] catch-all segments.
+ */
+export function modelNameFromSegments(segments: string[]): string {
+  return segments.map(decodeURIComponent).join("/");
+}
+
+/**
+ * Path to the head-to-head comparison of two models, optionally opened at
+ * their responses to one prompt.
+ */
+export function comparePath(modelA: string, modelB: string, promptId?: string): string {
+  const params = new URLSearchParams({ a: modelA, b: modelB });
+  if (promptId) params.set("prompt", promptId);
+  return `/compare?${params.toString()}`;
+}
+
+/**
+ * Path to a model's SVG rank badge, encoded the same way as its page.
+ */
+export function badgePath(modelName: string): string {
+  return modelPagePath(modelName).replace(/^\/models\//, "/api/badge/");
+}
+
+/**
+ * Path to a model page's Open Graph image.
+ */
+export function modelOgImagePath(modelName: string): string {
+  return modelPagePath(modelName).replace(/^\/models\//, "/api/og/models/");
+}
+
+/**
+ * Path to a comparison's Open Graph image.
+ */
+export function compareOgImagePath(modelA: string, modelB: string): string {
+  return comparePath(modelA, modelB).replace(/^\/compare/, "/api/og/compare");
+}
+
+/**
+ * Path to the page listing every model's response to one prompt.
+ */
+export function promptPagePath(promptId: string): string {
+  return `/prompts/${encodeURIComponent(promptId)}`;
+}
+
+/**
+ * Path to one sample on a model page, expanded in the samples tab.
+ */
+export function samplePath(modelName: string, taskId: number): string {
+  return `${modelPagePath(modelName, "samples")}&sample=${taskId}`;
+}
+
+/**
+ * Path to the judge disagreement page, optionally filtered to one model.
+ */
+export function disagreementPath(modelName?: string): string {
+  return modelName ? `/judges/disagreement?model=${encodeURIComponent(modelName)}` : "/judges/disagreement";
+}
@@ -0,0 +1,186 @@
+import { prisma } from "./db";
+import type { Prisma } from "@/generated/prisma/client";
+import { fetchHuggingFaceModelInfo, type HFModelInfo } from "./huggingface";
+import type { ModelMetadata } from "./model-filters";
+
+// Parameter count, architecture, base model, license and quantisation for
+// leaderboard models, gathered from the Hugging Face API (falling back to the
+// modelInfo stored with the submission) and cached in the settings table, one
+// row per model.
+
+const CACHE_KEY_PREFIX = "model_metadata:";
+
+// Cached metadata older than this is refetched
+const METADATA_TTL_DAYS = 30;
+
+// Metadata built from the name alone, e.g. during a Hugging Face outage, is
+// retried sooner
+const PARTIAL_METADATA_TTL_HOURS = 6;
+
+// Models refreshed per page view, to stay well inside Hugging Face rate limits
+const REFRESH_BATCH_SIZE = 5;
+
+// Separators around name tokens such as "7b" or "awq"
+const TOKEN_START = "(?:^|[-_./])";
+const TOKEN_END = "(?=$|[-_./])";
+
+/**
+ * Hugging Face repo id and GGUF file name for a leaderboard model name, which
+ * is either a repo id or a GGUF download URL.
+ */
+function parseModelSource(modelName: string): { repoId: string | null; ggufFile: string | null } {
+  if (/^[\w.-]+\/[\w.-]+$/.test(modelName)) {
+    return { repoId: modelName, ggufFile: null };
+  }
+
+  try {
+    const url = new URL(modelName);
+    if (!url.hostname.endsWith("huggingface.co")) return { repoId: null, ggufFile: null };
+    // /<org>/<repo>/resolve/<revision>/<file>
+    const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    return {
+      repoId: segments.length >= 2 ? `${segments[0]}/${segments[1]}` : null,
+      ggufFile: segments.at(-1)?.toLowerCase().endsWith(".gguf") ? segments.at(-1)! : null,
+    };
+  } catch {
+    return { repoId: null, ggufFile: null };
+  }
+}
+
+function tagValues(tags: string[] | undefined, prefix: string): string[] {
+  return (tags ?? []).filter((t) => t.startsWith(prefix)).map((t) => t.slice(prefix.length));
+}
+
+function firstString(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+function parametersFromName(name: string): number | null {
+  // "7b", "1.5B", "500m"; skips MoE shapes like "8x7b" and active counts like "a3b"
+  const match = new RegExp(`${TOKEN_START}(\\d+(?:\\.\\d+)?)([bm])${TOKEN_END}`, "i").exec(name);
+  if (!match) return null;
+  return Number(match[1]) * (match[2].toLowerCase() === "b" ? 1e9 : 1e6);
+}
+
+function quantizationFromGgufFile(file: string): string | null {
+  const match = new RegExp(`${TOKEN_START}(I?Q\\d+(?:_[A-Z0-9]+)*|BF16|F16|F32)${TOKEN_END}`, "i").exec(
+    file.replace(/\.gguf$/i, "")
+  );
+  return match ? match[1].toUpperCase() : "gguf";
+}
+
+function quantizationFromInfo(name: string, info: HFModelInfo | null): string | null {
+  const config = info?.config?.quantization_config;
+  if (config?.quant_method) {
+    return config.bits ? `${config.quant_method}-${config.bits}bit` : config.quant_method;
+  }
+  const match = new RegExp(`${TOKEN_START}(awq|gptq|fp8|int4|int8|w4a16|w8a8|exl2|nf4)${TOKEN_END}`, "i").exec(name);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Derive leaderboard metadata from a model name and whatever Hugging Face info
+ * is available for it.
+ */
+export function buildModelMetadata(modelName: string, info: HFModelInfo | null): ModelMetadata {
+  const { repoId, ggufFile } = parseModelSource(modelName);
+  const name = repoId ?? modelName;
+
+  const baseModel =
+    firstString(info?.cardData?.base_model) ??
+    // Tags look like "base_model:finetune:org/model" or "base_model:org/model"
+    tagValues(info?.tags, "base_model:")
+      .map((v) => v.replace(/^(finetune|quantized|adapter|merge):/, ""))
+      .find((v) => v.includes("/")) ??
+    null;
+
+  return {
+    parameters: info?.safetensors?.total ?? info?.gguf?.total ?? parametersFromName(name),
+    architecture:
+      info?.config?.model_type ?? info?.gguf?.architecture ?? info?.config?.architectures?.[0] ?? null,
+    baseModel: baseModel === repoId ? null : baseModel,
+    license: info?.cardData?.license ?? tagValues(info?.tags, "license:")[0] ?? null,
+    quantization: ggufFile ? quantizationFromGgufFile(ggufFile) : quantizationFromInfo(name, info),
+    fetchedAt: new Date().toISOString(),
+    ...(info ? {} : { partial: true }),
+  };
+}
+
+/**
+ * The Hugging Face info stored with the model's most recent submission.
+ */
+async function getStoredModelInfo(modelName: string): Promise<HFModelInfo | null> {
+  const submission = await prisma.submissions.findFirst({
+    where: { params: { path: ["modelId"], equals: modelName } },
+    orderBy: { created_at: "desc" },
+    select: { params: true },
+  });
+  const params = submission?.params as { modelInfo?: HFModelInfo } | null | undefined;
+  return params?.modelInfo ?? null;
+}
+
+async function gatherModelMetadata(modelName: string): Promise<ModelMetadata> {
+  const { repoId } = parseModelSource(modelName);
+  const info =
+    (repoId ? await fetchHuggingFaceModelInfo(repoId) : null) ?? (await getStoredModelInfo(modelName));
+  return buildModelMetadata(modelName, info);
+}
+
+/**
+ * All cached metadata, keyed by model name.
+ */
+export async function getCachedModelMetadata(): Promise<Record<string, ModelMetadata>> {
+  const rows = await prisma.settings.findMany({
+    where: { key: { startsWith: CACHE_KEY_PREFIX } },
+  });
+  return Object.fromEntries(
+    rows.map((row) => [row.key.slice(CACHE_KEY_PREFIX.length), row.value as unknown as ModelMetadata])
+  );
+}
+
+/**
+ * Models with no cached metadata, or metadata older than the TTL.
+ */
+export function staleModelNames(modelNames: string[], cache: Record<string, ModelMetadata>): string[] {
+  const cutoff = Date.now() - METADATA_TTL_DAYS * 24 * 60 * 60 * 1000;
+  const partialCutoff = Date.now() - PARTIAL_METADATA_TTL_HOURS * 60 * 60 * 1000;
+  return modelNames.filter((name) => {
+    const cached = cache[name];
+    return !cached || new Date(cached.fetchedAt).getTime() < (cached.partial ? partialCutoff : cutoff);
+  });
+}
+
+/**
+ * Fetch and cache metadata for the given models, one at a time.
+ */
+export async function refreshModelMetadata(modelNames: string[]): Promise<Record<string, ModelMetadata>> {
+  const refreshed: Record<string, ModelMetadata> = {};
+  for (const modelName of modelNames) {
+    const metadata = await gatherModelMetadata(modelName);
+    const key = `${CACHE_KEY_PREFIX}${modelName}`;
+    const value = metadata as unknown as Prisma.InputJsonValue;
+    await prisma.settings.upsert({
+      where: { key },
+      create: { key, value },
+      update: { value },
+    });
+    refreshed[modelName] = metadata;
+  }
+  return refreshed;
+}
+
+let backgroundRefresh: Promise<unknown> | null = null;
+
+/**
+ * Refresh a batch of stale models from a page view. Only one batch runs at a
+ * time per process, so concurrent views don't fetch the same models twice;
+ * views that arrive meanwhile skip the refresh.
+ */
+export function refreshStaleModelMetadata(modelNames: string[]): Promise<unknown> {
+  if (backgroundRefresh || modelNames.length === 0) return Promise.resolve();
+  backgroundRefresh = refreshModelMetadata(modelNames.slice(0, REFRESH_BATCH_SIZE)).finally(() => {
+    backgroundRefresh = null;
+  });
+  return backgroundRefresh;
+}
@@ -0,0 +1,260 @@
+import { unstable_cache } from "next/cache";
+import { prisma } from "./db";
+import type { Prisma } from "@/generated/prisma/client";
+import { getOverallScore } from "./sample-scores";
+import { computeSampleMetrics, type TextMetrics } from "./text-metrics";
+
+export interface VllmArg {
+  arg: string;
+  value: string | number | null;
+}
+
+// The parts of runs.run_config the app reads
+export interface RunConfig {
+  submission_id?: string;
+  params?: {
+    modelType?: string;
+    vllmParams?: {
+      args?: VllmArg[];
+      envVars?: Record<string, string>;
+    };
+    judges?: string[];
+    modelId?: string;
+  };
+}
+
+export interface RunDetails {
+  runKey: string;
+  startTime: string | null;
+  endTime: string | null;
+  durationMinutes: number | null;
+  runConfig: RunConfig | null;
+}
+
+export interface SampleSummary {
+  id: number;
+  prompt_id: string;
+  iteration_index: number;
+  aggregated_scores: Record<string, number> | null;
+  // Lexical metrics of the whole response, when requested
+  metrics?: TextMetrics | null;
+}
+
+export interface PromptSample extends SampleSummary {
+  model_name: string;
+}
+
+export interface RunSummary {
+  runKey: string;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+/**
+ * A model's completed runs, most recent first.
+ */
+export async function getModelRuns(modelName: string): Promise<RunSummary[]> {
+  const runs = await prisma.runs.findMany({
+    where: {
+      test_model: modelName,
+      status: "completed",
+    },
+    orderBy: { start_time: "desc" },
+    select: { run_key: true, start_time: true, end_time: true },
+  });
+
+  return runs.map((run) => ({
+    runKey: run.run_key,
+    startTime: run.start_time?.toISOString() ?? null,
+    endTime: run.end_time?.toISOString() ?? null,
+  }));
+}
+
+/**
+ * A model's completed runs and the run to show: the given key if it is one of
+ * them, otherwise the most recent (null if the model has no completed run).
+ * Pages and routes taking ?run= or ?runKey= resolve it here so an unknown or
+ * another model's key falls back the same way everywhere.
+ */
+export async function resolveModelRun(
+  modelName: string,
+  runKey?: string | null
+): Promise<{ runs: RunSummary[]; runKey: string | null }> {
+  const runs = await getModelRuns(modelName);
+  return {
+    runs,
+    runKey: runs.find((run) => run.runKey === runKey)?.runKey ?? runs[0]?.runKey ?? null,
+  };
+}
+
+/**
+ * Where clause for one of a model's completed runs: the given run key, or the
+ * most recent run when it's omitted.
+ */
+function completedRunWhere(modelName: string, runKey?: string | null) {
+  return {
+    test_model: modelName,
+    status: "completed",
+    ...(runKey ? { run_key: runKey } : {}),
+  };
+}
+
+/**
+ * Details of a model's completed run (the most recent unless runKey is
+ * given), or null if there is none.
+ */
+export async function getRunDetails(modelName: string, runKey?: string | null): Promise<RunDetails | null> {
+  const run = await prisma.runs.findFirst({
+    where: completedRunWhere(modelName, runKey),
+    orderBy: { start_time: "desc" },
+    select: {
+      run_key: true,
+      start_time: true,
+      end_time: true,
+      run_config: true,
+    },
+  });
+
+  if (!run) return null;
+
+  // Calculate duration in minutes if both times are available
+  let durationMinutes: number | null = null;
+  if (run.start_time && run.end_time) {
+    const durationMs = run.end_time.getTime() - run.start_time.getTime();
+    durationMinutes = Math.round(durationMs / 1000 / 60);
+  }
+
+  return {
+    runKey: run.run_key,
+    startTime: run.start_time?.toISOString() ?? null,
+    endTime: run.end_time?.toISOString() ?? null,
+    durationMinutes,
+    runConfig: run.run_config as RunConfig | null,
+  };
+}
+
+/**
+ * Overall lexical metrics for each of the given tasks, keyed by task ID.
+ */
+async function computeTaskMetrics(where: Prisma.tasksWhereInput) {
+  const tasks = await prisma.tasks.findMany({
+    where,
+    select: { id: true, model_response: true, model_responses: true },
+  });
+  return Object.fromEntries(
+    tasks.map((task) => [task.id, computeSampleMetrics(task).overall])
+  ) as Record<number, TextMetrics>;
+}
+
+// Metrics read every response in the run, and a completed run's responses
+// don't change, so they are cached by run key
+const getRunSampleMetrics = unstable_cache(
+  (runKey: string) => computeTaskMetrics({ run_key: runKey, status: "completed" }),
+  ["run-sample-metrics"]
+);
+
+/**
+ * Completed tasks from one of a model's completed runs (the most recent
+ * unless runKey is given), without response content. Responses are lazy
+ * loaded via /api/samples/response/[taskId]. With `metrics`, each sample
+ * carries its response's overall lexical metrics.
+ */
+export async function getModelSamples(
+  modelName: string,
+  runKey?: string | null,
+  { metrics = false }: { metrics?: boolean } = {}
+): Promise<SampleSummary[]> {
+  const run = await prisma.runs.findFirst({
+    where: completedRunWhere(modelName, runKey),
+    orderBy: { start_time: "desc" },
+    select: { run_key: true },
+  });
+
+  if (!run) return [];
+
+  const [tasks, metricsByTask] = await Promise.all([
+    prisma.tasks.findMany({
+      where: {
+        run_key: run.run_key,
+        status: "completed",
+      },
+      select: {
+        id: true,
+        prompt_id: true,
+        iteration_index: true,
+        aggregated_scores: true,
+      },
+      orderBy: { id: "asc" },
+    }),
+    metrics ? getRunSampleMetrics(run.run_key) : null,
+  ]);
+  return tasks.map((task) => ({
+    ...task,
+    aggregated_scores: task.aggregated_scores as Record<string, number> | null,
+    ...(metricsByTask ? { metrics: metricsByTask[task.id] ?? null } : {}),
+  }));
+}
+
+/**
+ * Each model's response to one prompt from its most recent completed run,
+ * using the first iteration, best aggregated score first, with its overall
+ * lexical metrics.
+ */
+export async function getPromptSamples(
+  promptId: string,
+  modelNames: string[]
+): Promise<PromptSample[]> {
+  const latestRuns = await prisma.runs.findMany({
+    where: {
+      test_model: { in: modelNames },
+      status: "completed",
+    },
+    orderBy: { start_time: "desc" },
+    distinct: ["test_model"],
+    select: { run_key: true, test_model: true },
+  });
+
+  const modelByRun = new Map(latestRuns.map((r) => [r.run_key, r.test_model]));
+  const tasks = await prisma.tasks.findMany({
+    where: {
+      run_key: { in: [...modelByRun.keys()] },
+      prompt_id: promptId,
+      status: "completed",
+    },
+    select: {
+      id: true,
+      run_key: true,
+      prompt_id: true,
+      iteration_index: true,
+      aggregated_scores: true,
+    },
+    orderBy: { iteration_index: "asc" },
+  });
+
+  const byModel = new Map<string, PromptSample>();
+  for (const { run_key, aggregated_scores, ...task } of tasks) {
+    const model = modelByRun.get(run_key)!;
+    if (!byModel.has(model)) {
+      byModel.set(model, {
+        ...task,
+        aggregated_scores: aggregated_scores as Record<string, number> | null,
+        model_name: model,
+      });
+    }
+  }
+
+  const metricsByTask = await computeTaskMetrics({
+    id: { in: [...byModel.values()].map((sample) => sample.id) },
+  });
+  for (const sample of byModel.values()) sample.metrics = metricsByTask[sample.id] ?? null;
+
+  const score = (sample: PromptSample) => getOverallScore(sample.aggregated_scores);
+  return [...byModel.values()].sort((a, b) => {
+    const scoreA = score(a);
+    const scoreB = score(b);
+    if (scoreA === null || scoreB === null) {
+      return scoreA === null ? (scoreB === null ? 0 : 1) : -1;
+    }
+    return scoreB - scoreA;
+  });
+}
@@ -0,0 +1,269 @@
+import { ImageResponse } from "next/og";
+import type { LeaderboardRating } from "./leaderboard";
+import { computeRankRanges, type RankRange } from "./rank-ranges";
+import type { ModelProficiency } from "./proficiencies";
+import type { HeadToHeadRecord } from "./head-to-head";
+
+// Open Graph cards for social previews. Rendered with next/og (Satori), which
+// only understands inline styles and needs display: flex on any element with
+// more than one child.
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const colors = {
+  background: "#0a0a0a",
+  foreground: "#fafafa",
+  muted: "#a1a1aa",
+  border: "#27272a",
+  accent: "#f59e0b",
+  positive: "#4ade80",
+  negative: "#f87171",
+  modelA: "#60a5fa",
+  modelB: "#f472b6",
+};
+
+const SITE_NAME = "Open Writing Leaderboard";
+
+// Previews are re-rendered at most every 10 minutes per CDN node
+const CACHE_CONTROL = "public, max-age=600, s-maxage=600, stale-while-revalidate=86400";
+
+export interface OgModelStats {
+  name: string;
+  rating: LeaderboardRating | null;
+  rank: RankRange | null;
+  totalModels: number;
+  proficiency: ModelProficiency | null;
+}
+
+/**
+ * Stats for one model's card from the published board and proficiencies.
+ */
+export function ogModelStats(
+  name: string,
+  ratings: LeaderboardRating[],
+  proficiencies: Record<string, ModelProficiency>
+): OgModelStats {
+  const position = ratings.findIndex((r) => r.model_name === name);
+  return {
+    name,
+    rating: position === -1 ? null : ratings[position],
+    rank: position === -1 ? null : computeRankRanges(ratings)[position],
+    totalModels: ratings.length,
+    proficiency: proficiencies[name] ?? null,
+  };
+}
+
+/**
+ * Renders the card to PNG bytes before responding. ImageResponse streams the
+ * Satori render after the handler returns, so a render failure would go out
+ * as a cached 200 with a broken body; buffering makes it throw here instead.
+ */
+async function render(element: React.ReactElement): Promise<Response> {
+  const image = new ImageResponse(element, OG_IMAGE_SIZE);
+  const body = await image.arrayBuffer();
+  return new Response(body, {
+    headers: {
+      "Content-Type": image.headers.get("Content-Type") ?? "image/png",
+      "Cache-Control": CACHE_CONTROL,
+    },
+  });
+}
+
+function Frame({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        padding: 64,
+        background: colors.background,
+        color: colors.foreground,
+        fontFamily: "sans-serif",
+      }}
+    >
+      <div style={{ display: "flex", fontSize: 24, color: colors.muted, letterSpacing: 2 }}>
+        {SITE_NAME.toUpperCase()}
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", flex: 1, marginTop: 32 }}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Long GGUF URLs and the like would overflow the card
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function formatRank(rank: RankRange | null): string {
+  if (!rank) return "Unranked";
+  return `#${rank.tied ? "=" : ""}${rank.best}`;
+}
+
+function formatCi(rating: LeaderboardRating | null): string | null {
+  if (rating?.ci_low == null || rating.ci_high == null) return null;
+  return `95% CI ${rating.ci_low.toFixed(0)}–${rating.ci_high.toFixed(0)}`;
+}
+
+function CriteriaList({ title, items, color }: { title: string; items: string[]; color: string }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <div style={{ display: "flex", fontSize: 20, color: colors.muted, marginBottom: 12 }}>{title}</div>
+      {items.length === 0 ? (
+        <div style={{ display: "flex", fontSize: 26, color: colors.muted }}>—</div>
+      ) : (
+        items.map((item) => (
+          <div key={item} style={{ display: "flex", fontSize: 28, color, marginBottom: 6 }}>
+            {item}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Home page card: the current top five.
+ */
+export function renderHomeImage(ratings: LeaderboardRating[], ranks: RankRange[]) {
+  const top = ratings.slice(0, 5);
+  return render(
+    <Frame>
+      <div style={{ display: "flex", fontSize: 44, fontWeight: 700, marginBottom: 24 }}>
+        Creative writing, ranked by pairwise judging
+      </div>
+      {top.map((rating, i) => (
+        <div
+          key={rating.model_name}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            fontSize: 32,
+            padding: "10px 0",
+            borderTop: `1px solid ${colors.border}`,
+          }}
+        >
+          <div style={{ display: "flex", width: 90, color: i === 0 ? colors.accent : colors.muted }}>
+            {formatRank(ranks[i])}
+          </div>
+          <div style={{ display: "flex", flex: 1 }}>{truncate(rating.model_name, 48)}</div>
+          <div style={{ display: "flex", color: colors.muted }}>{rating.elo?.toFixed(0) ?? "—"}</div>
+        </div>
+      ))}
+      <div style={{ display: "flex", marginTop: "auto", fontSize: 22, color: colors.muted }}>
+        {ratings.length} models ranked
+      </div>
+    </Frame>
+  );
+}
+
+/**
+ * Model page card: rank, Elo with CI, and the top rubric strengths and
+ * weaknesses relative to neighbouring models.
+ */
+export function renderModelImage({ name, rating, rank, totalModels, proficiency }: OgModelStats) {
+  const ci = formatCi(rating);
+  return render(
+    <Frame>
+      <div style={{ display: "flex", fontSize: name.length > 40 ? 44 : 60, fontWeight: 700 }}>
+        {truncate(name, 60)}
+      </div>
+      <div style={{ display: "flex", alignItems: "baseline", marginTop: 24 }}>
+        <div style={{ display: "flex", fontSize: 72, fontWeight: 700, color: colors.accent }}>
+          {formatRank(rank)}
+        </div>
+        {rank && (
+          <div style={{ display: "flex", fontSize: 28, color: colors.muted, marginLeft: 16 }}>
+            of {totalModels}
+          </div>
+        )}
+        {rating?.elo != null && (
+          <div style={{ display: "flex", fontSize: 48, marginLeft: 56 }}>{rating.elo.toFixed(0)} Elo</div>
+        )}
+        {ci && (
+          <div style={{ display: "flex", fontSize: 26, color: colors.muted, marginLeft: 20 }}>{ci}</div>
+        )}
+      </div>
+      <div style={{ display: "flex", marginTop: "auto", gap: 48 }}>
+        <CriteriaList
+          title="STRENGTHS"
+          items={(proficiency?.strengths ?? []).slice(0, 3).map((s) => s.criterion)}
+          color={colors.positive}
+        />
+        <CriteriaList
+          title="WEAKNESSES"
+          items={(proficiency?.weaknesses ?? []).slice(0, 3).map((w) => w.criterion)}
+          color={colors.negative}
+        />
+      </div>
+    </Frame>
+  );
+}
+
+function CompareSide({ stats, color, align }: { stats: OgModelStats; color: string; align: "left" | "right" }) {
+  const ci = formatCi(stats.rating);
+  const strengths = (stats.proficiency?.strengths ?? []).slice(0, 2).map((s) => s.criterion);
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        flex: 1,
+        alignItems: align === "left" ? "flex-start" : "flex-end",
+        textAlign: align,
+      }}
+    >
+      <div style={{ display: "flex", fontSize: 36, fontWeight: 700, color }}>{truncate(stats.name, 32)}</div>
+      <div style={{ display: "flex", fontSize: 30, marginTop: 12 }}>
+        {formatRank(stats.rank)}
+        {stats.rating?.elo != null ? ` · ${stats.rating.elo.toFixed(0)} Elo` : ""}
+      </div>
+      {ci && <div style={{ display: "flex", fontSize: 22, color: colors.muted, marginTop: 6 }}>{ci}</div>}
+      {strengths.length > 0 && (
+        <div style={{ display: "flex", fontSize: 22, color: colors.positive, marginTop: 12 }}>
+          {strengths.join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Compare page card: both models side by side with their head-to-head win rate.
+ */
+export function renderCompareImage(a: OgModelStats, b: OgModelStats, record: HeadToHeadRecord) {
+  const winRate = record.winRate;
+  return render(
+    <Frame>
+      <div style={{ display: "flex", gap: 48 }}>
+        <CompareSide stats={a} color={colors.modelA} align="left" />
+        <div style={{ display: "flex", fontSize: 32, color: colors.muted, alignSelf: "center" }}>vs</div>
+        <CompareSide stats={b} color={colors.modelB} align="right" />
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", marginTop: "auto" }}>
+        {winRate === null ? (
+          <div style={{ display: "flex", fontSize: 28, color: colors.muted }}>
+            Not compared head-to-head yet
+          </div>
+        ) : (
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 56, fontWeight: 700 }}>
+              <div style={{ display: "flex", color: colors.modelA }}>{(winRate * 100).toFixed(0)}%</div>
+              <div style={{ display: "flex", fontSize: 26, fontWeight: 400, color: colors.muted, alignSelf: "center" }}>
+                {record.wins}–{record.draws}–{record.losses} over {record.matchups} prompts
+              </div>
+              <div style={{ display: "flex", color: colors.modelB }}>{((1 - winRate) * 100).toFixed(0)}%</div>
+            </div>
+            <div style={{ display: "flex", height: 20, marginTop: 16, borderRadius: 10, overflow: "hidden" }}>
+              <div style={{ display: "flex", width: `${winRate * 100}%`, background: colors.modelA }} />
+              <div style={{ display: "flex", flex: 1, background: colors.modelB }} />
+            </div>
+          </div>
+        )}
+      </div>
+    </Frame>
+  );
+}
@@ -0,0 +1,67 @@
+// Elo against a cost axis (size, slop, length), with the Pareto frontier: the
+// models no other model beats on Elo while costing the same or less.
+// Client-safe.
+
+export interface ParetoModel {
+  model: string;
+  elo: number;
+  parameters: number | null;
+  slopScore: number | null;
+  avgResponseLength: number | null;
+}
+
+export const PARETO_AXES = {
+  parameters: {
+    label: "Parameters",
+    description: "Total parameter count from Hugging Face metadata",
+    logScale: true,
+  },
+  slopScore: {
+    label: "Slop score",
+    description: "Lexical slop score from the latest run; lower is better",
+    logScale: false,
+  },
+  avgResponseLength: {
+    label: "Avg. response length",
+    description: "Average characters per response turn in the latest run",
+    logScale: false,
+  },
+} as const;
+
+export type ParetoAxis = keyof typeof PARETO_AXES;
+
+export function isParetoAxis(value: string | null | undefined): value is ParetoAxis {
+  return value !== null && value !== undefined && value in PARETO_AXES;
+}
+
+export interface ParetoPoint {
+  model: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Points on the frontier when lower x and higher y are better, ordered by x.
+ * A point is on it when every point with x no greater than its own has a lower y.
+ */
+export function paretoFrontier<T extends ParetoPoint>(points: T[]): T[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || b.y - a.y);
+  const frontier: T[] = [];
+  let bestY = -Infinity;
+  for (const point of sorted) {
+    if (point.y > bestY) {
+      frontier.push(point);
+      bestY = point.y;
+    }
+  }
+  return frontier;
+}
+
+/**
+ * Plot points for one axis, skipping models without a value for it.
+ */
+export function paretoPoints(models: ParetoModel[], axis: ParetoAxis): ParetoPoint[] {
+  return models
+    .filter((m) => m[axis] !== null && (!PARETO_AXES[axis].logScale || m[axis]! > 0))
+    .map((m) => ({ model: m.model, x: m[axis]!, y: m.elo }));
+}
@@ -0,0 +1,34 @@
+import prompts from "@/data/prompts.json";
+
+export interface PromptInfo {
+  category: string;
+  prompt: string;
+}
+
+export const promptsData = prompts as Record<string, PromptInfo>;
+
+/**
+ * All prompt categories, sorted alphabetically.
+ */
+export function getPromptCategories(): string[] {
+  const categories = new Set(Object.values(promptsData).map((p) => p.category));
+  return [...categories].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Prompt IDs (which double as elo_comparisons.item_id) belonging to any of the given categories.
+ */
+export function getPromptIdsForCategories(categories: string[]): string[] {
+  const wanted = new Set(categories);
+  return Object.entries(promptsData)
+    .filter(([, info]) => wanted.has(info.category))
+    .map(([id]) => id);
+}
+
+/**
+ * Keep only category names that exist in prompts.json, de-duplicated.
+ */
+export function sanitizeCategories(categories: string[]): string[] {
+  const known = new Set(getPromptCategories());
+  return [...new Set(categories)].filter((c) => known.has(c));
+}
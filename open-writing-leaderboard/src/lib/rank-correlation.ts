@@ -0,0 +1,64 @@
+/**
+ * Ranks with ties sharing their average rank (1 = lowest value).
+ */
+function fractionalRanks(values: number[]): number[] {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1][0] === order[start][0]) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k][1]] = rank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+function pearson(x: number[], y: number[]): number | null {
+  const n = x.length;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - meanX) * (y[i] - meanY);
+    varX += (x[i] - meanX) ** 2;
+    varY += (y[i] - meanY) ** 2;
+  }
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+}
+
+/**
+ * Spearman's rho between two paired score lists. Null with fewer than three
+ * pairs or when either list is constant.
+ */
+export function spearmanCorrelation(x: number[], y: number[]): number | null {
+  if (x.length !== y.length || x.length < 3) return null;
+  return pearson(fractionalRanks(x), fractionalRanks(y));
+}
+
+/**
+ * Kendall's tau-b between two paired score lists (tie-corrected).
+ */
+export function kendallTau(x: number[], y: number[]): number | null {
+  if (x.length !== y.length || x.length < 3) return null;
+  let concordant = 0;
+  let discordant = 0;
+  let tiesX = 0;
+  let tiesY = 0;
+  for (let i = 0; i < x.length; i++) {
+    for (let j = i + 1; j < x.length; j++) {
+      const dx = Math.sign(x[i] - x[j]);
+      const dy = Math.sign(y[i] - y[j]);
+      if (dx === 0 && dy === 0) continue;
+      if (dx === 0) tiesX++;
+      else if (dy === 0) tiesY++;
+      else if (dx === dy) concordant++;
+      else discordant++;
+    }
+  }
+  const denom = Math.sqrt((concordant + discordant + tiesX) * (concordant + discordant + tiesY));
+  return denom === 0 ? null : (concordant - discordant) / denom;
+}
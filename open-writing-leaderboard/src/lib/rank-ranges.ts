@@ -0,0 +1,48 @@
+interface RatingInterval {
+  elo: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+export interface RankRange {
+  // 1 + number of models whose interval lies entirely above this one
+  best: number;
+  // N - number of models whose interval lies entirely below this one
+  worst: number;
+  // Another model shares the same best rank (overlapping intervals)
+  tied: boolean;
+}
+
+function interval(r: RatingInterval): [number, number] | null {
+  if (r.elo === null) return null;
+  return [r.ci_low ?? r.elo, r.ci_high ?? r.elo];
+}
+
+/**
+ * Plausible rank range for each rating given its confidence interval.
+ * A model only counts as definitely ahead of another when their intervals do
+ * not overlap. Returned in the same order as the input.
+ */
+export function computeRankRanges(ratings: RatingInterval[]): RankRange[] {
+  const intervals = ratings.map(interval);
+  const n = ratings.length;
+
+  const ranges = intervals.map((own, i) => {
+    if (!own) return { best: n, worst: n };
+    let above = 0;
+    let below = 0;
+    intervals.forEach((other, j) => {
+      if (i === j || !other) return;
+      if (other[0] > own[1]) above++;
+      if (other[1] < own[0]) below++;
+    });
+    return { best: above + 1, worst: n - below };
+  });
+
+  const bestCounts = new Map<number, number>();
+  for (const r of ranges) {
+    bestCounts.set(r.best, (bestCounts.get(r.best) ?? 0) + 1);
+  }
+
+  return ranges.map((r) => ({ ...r, tied: (bestCounts.get(r.best) ?? 0) > 1 }));
+}
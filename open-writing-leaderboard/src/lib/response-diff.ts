@@ -0,0 +1,124 @@
+// Aligns two responses to the same prompt for the side-by-side reader, and
+// finds the phrases they share. Client-safe.
+
+// Shortest run of words that counts as a shared phrase
+export const SHARED_PHRASE_WORDS = 5;
+
+interface DiffTurn {
+  turn_type: string;
+  turn_index: number;
+  assistant_response: string;
+  chapter_number?: number | null;
+}
+
+export interface DiffSource {
+  model_response: string | null;
+  model_responses: DiffTurn[] | null;
+}
+
+export interface AlignedSection {
+  key: string;
+  label: string;
+  // Position used to order sections: planning, then chapters, then single responses
+  order: number;
+  a: string | null;
+  b: string | null;
+}
+
+export interface TextSegment {
+  text: string;
+  shared: boolean;
+}
+
+type Section = Omit<AlignedSection, "a" | "b"> & { text: string };
+
+function toSections(response: DiffSource | null): Section[] {
+  if (!response) return [];
+  const turns = response.model_responses;
+  if (!turns || turns.length === 0) {
+    return [{ key: "response", label: "Response", order: Infinity, text: response.model_response ?? "" }];
+  }
+  return turns.map((turn) => {
+    if (turn.turn_type === "planning") {
+      return { key: "planning", label: "Planning", order: -1, text: turn.assistant_response ?? "" };
+    }
+    const chapter = turn.chapter_number ?? turn.turn_index;
+    return { key: `chapter-${chapter}`, label: `Chapter ${chapter}`, order: chapter, text: turn.assistant_response ?? "" };
+  });
+}
+
+/**
+ * Pair up the planning turn and chapters of two responses. Sections only one
+ * side has are kept with null on the other.
+ */
+export function alignSections(a: DiffSource | null, b: DiffSource | null): AlignedSection[] {
+  const aligned = new Map<string, AlignedSection>();
+  for (const [side, sections] of [["a", toSections(a)], ["b", toSections(b)]] as const) {
+    for (const { text, ...section } of sections) {
+      const entry = aligned.get(section.key) ?? { ...section, a: null, b: null };
+      entry[side] = text;
+      aligned.set(section.key, entry);
+    }
+  }
+  return [...aligned.values()].sort((x, y) => x.order - y.order);
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function tokenize(text: string) {
+  return [...text.matchAll(/[\p{L}\p{N}']+/gu)].map((m) => ({
+    word: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+function phraseKeys(words: string[], length: number): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i + length <= words.length; i++) {
+    keys.push(words.slice(i, i + length).join(" "));
+  }
+  return keys;
+}
+
+/**
+ * Every run of `length` words (case and punctuation ignored) found in both texts.
+ */
+export function sharedPhrases(a: string, b: string, length = SHARED_PHRASE_WORDS): Set<string> {
+  const inB = new Set(phraseKeys(tokenize(b).map((t) => t.word), length));
+  return new Set(phraseKeys(tokenize(a).map((t) => t.word), length).filter((key) => inB.has(key)));
+}
+
+/**
+ * Split text into runs inside and outside shared phrases. Overlapping phrases
+ * merge into one run.
+ */
+export function highlightShared(
+  text: string,
+  shared: Set<string>,
+  length = SHARED_PHRASE_WORDS
+): TextSegment[] {
+  const tokens = tokenize(text);
+  const keys = phraseKeys(tokens.map((t) => t.word), length);
+  const ranges: [number, number][] = [];
+  keys.forEach((key, i) => {
+    if (!shared.has(key)) return;
+    const start = tokens[i].start;
+    const end = tokens[i + length - 1].end;
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else ranges.push([start, end]);
+  });
+
+  const segments: TextSegment[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) segments.push({ text: text.slice(position, start), shared: false });
+    segments.push({ text: text.slice(start, end), shared: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), shared: false });
+  return segments;
+}
@@ -0,0 +1,101 @@
+// Client-safe.
+
+/**
+ * Headline score of a task's aggregated_scores: the first overall-style key,
+ * falling back to the mean of every numeric score.
+ */
+export function getOverallScore(scores: Record<string, number> | null): number | null {
+  if (!scores) return null;
+  // Look for common overall score keys
+  const overallKeys = ["overall", "total", "score", "final_score"];
+  for (const key of overallKeys) {
+    if (key in scores && typeof scores[key] === "number") {
+      return scores[key];
+    }
+  }
+  // Fall back to average of all numeric scores
+  const numericScores = Object.values(scores).filter(v => typeof v === "number");
+  if (numericScores.length > 0) {
+    return numericScores.reduce((a, b) => a + b, 0) / numericScores.length;
+  }
+  return null;
+}
+
+// Fields in judge_scores that aren't rubric dimensions
+export const EXCLUDED_SCORE_FIELDS = new Set([
+  "piece score 0 20",
+  "per metric",
+  "n judges",
+  "ensemble mode",
+  "analysis_text",
+]);
+
+export interface JudgeScoreRow {
+  dimension: string;
+  // One per judge, null where that judge didn't score the dimension
+  scores: (number | null)[];
+  mean: number;
+  // Population variance across the judges that scored it; 0 with one judge
+  variance: number;
+}
+
+// Rubric scores outside this range are malformed judge output
+const MIN_DIMENSION_SCORE = 0;
+const MAX_DIMENSION_SCORE = 20;
+
+/**
+ * The rubric dimension scores (0–20) in one judge's judge_scores. Matches the
+ * filter of the judge disagreement query.
+ */
+export function judgeDimensionScores(
+  judgeScores: Record<string, unknown> | null
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const [key, value] of Object.entries(judgeScores ?? {})) {
+    if (key.startsWith("_") || EXCLUDED_SCORE_FIELDS.has(key)) continue;
+    if (typeof value !== "number" || isNaN(value)) continue;
+    if (value < MIN_DIMENSION_SCORE || value > MAX_DIMENSION_SCORE) continue;
+    scores[key] = value;
+  }
+  return scores;
+}
+
+export function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+}
+
+/**
+ * Every judge's score per dimension side by side, with the spread between
+ * judges. Rows are sorted by dimension name.
+ */
+export function compareJudgeScores(
+  judges: { judge_scores: Record<string, unknown> | null }[]
+): JudgeScoreRow[] {
+  const perJudge = judges.map((j) => judgeDimensionScores(j.judge_scores));
+  const dimensions = [...new Set(perJudge.flatMap((scores) => Object.keys(scores)))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+  return dimensions.map((dimension) => {
+    const scores = perJudge.map((s) => s[dimension] ?? null);
+    const present = scores.filter((s): s is number => s !== null);
+    return {
+      dimension,
+      scores,
+      mean: present.reduce((a, b) => a + b, 0) / present.length,
+      variance: variance(present),
+    };
+  });
+}
+
+/**
+ * A task's disagreement: the mean variance across judges of the dimensions
+ * at least two judges scored, or null when there are none.
+ */
+export function judgeDisagreement(rows: JudgeScoreRow[]): number | null {
+  const shared = rows.filter((r) => r.scores.filter((s) => s !== null).length > 1);
+  if (shared.length === 0) return null;
+  return shared.reduce((sum, r) => sum + r.variance, 0) / shared.length;
+}
@@ -0,0 +1,219 @@
+import { prisma } from "./db";
+import { Prisma } from "@/generated/prisma/client";
+import { getPromptIdsForCategories, promptsData } from "./prompts";
+
+// Full-text search over task responses with Postgres text search. Responses
+// are indexed through task_search_text(), which joins the single response
+// with every assistant turn of multi-turn responses, so queries and the GIN
+// index share one expression.
+
+export const SEARCH_PAGE_SIZE = 20;
+const MAX_QUERY_LENGTH = 200;
+
+// Marks matched terms in snippets; chosen so they don't occur in responses
+export const HIGHLIGHT_START = "⟦";
+export const HIGHLIGHT_END = "⟧";
+
+const SEARCH_DOCUMENT = Prisma.sql`to_tsvector('english', task_search_text(t.model_response, t.model_responses))`;
+
+const SEARCH_FUNCTION_SQL = `
+CREATE OR REPLACE FUNCTION task_search_text(response text, responses json)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  SELECT coalesce(response, '') || ' ' || coalesce((
+    SELECT string_agg(turn->>'assistant_response', E'\\n\\n')
+    FROM json_array_elements(
+      CASE WHEN json_typeof(responses) = 'array' THEN responses ELSE '[]'::json END
+    ) AS turn
+  ), '')
+$$`;
+
+const SEARCH_INDEX_SQL = `
+CREATE INDEX CONCURRENTLY IF NOT EXISTS ix_tasks_response_search
+ON tasks USING GIN (to_tsvector('english', task_search_text(model_response, model_responses)))`;
+
+// A concurrent build that failed or was cancelled leaves an invalid index,
+// which IF NOT EXISTS would otherwise keep skipping
+const DROP_SEARCH_INDEX_SQL = `DROP INDEX CONCURRENTLY IF EXISTS ix_tasks_response_search`;
+
+export interface SearchFilters {
+  model: string | null;
+  category: string | null;
+  promptId: string | null;
+}
+
+export interface SearchHit {
+  taskId: number;
+  runKey: string;
+  model: string;
+  promptId: string;
+  category: string | null;
+  iterationIndex: number;
+  // Whether the task is from the model's most recent completed run
+  latestRun: boolean;
+  // Excerpts around the matches, with terms wrapped in HIGHLIGHT_START/END
+  snippet: string;
+}
+
+export interface SearchResults {
+  query: string;
+  hits: SearchHit[];
+  page: number;
+  hasMore: boolean;
+}
+
+export class SearchQueryError extends Error {}
+
+// The search function or index hasn't been created yet
+export class SearchUnavailableError extends Error {}
+
+// Set once the function and index are found; a missing index is re-checked
+// on every search so search starts working as soon as an admin creates it
+let searchIndexReady = false;
+
+async function assertSearchIndex(): Promise<void> {
+  if (searchIndexReady) return;
+  const [row] = await prisma.$queryRaw<{ ready: boolean }[]>`
+    SELECT to_regprocedure('task_search_text(text, json)') IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM pg_index i
+        JOIN pg_class c ON c.oid = i.indexrelid
+        WHERE c.relname = 'ix_tasks_response_search' AND i.indisvalid
+      ) AS ready
+  `;
+  if (!row?.ready) {
+    throw new SearchUnavailableError("Search isn't available yet: the search index hasn't been created");
+  }
+  searchIndexReady = true;
+}
+
+/**
+ * Create the search function and GIN index. Admin only: this is DDL on the
+ * shared schema. The index is built concurrently so runs can keep writing
+ * tasks meanwhile, and searches are refused until it is valid, since without
+ * it every query reads the full text of every task. An invalid index left by
+ * an earlier failed build is dropped and rebuilt; one still being built is
+ * left alone.
+ */
+export async function ensureSearchIndex(): Promise<void> {
+  await prisma.$executeRawUnsafe(SEARCH_FUNCTION_SQL);
+
+  const [index] = await prisma.$queryRaw<{ valid: boolean; building: boolean }[]>`
+    SELECT i.indisvalid AS valid,
+           EXISTS (
+             SELECT 1 FROM pg_stat_progress_create_index p WHERE p.index_relid = i.indexrelid
+           ) AS building
+    FROM pg_index i
+    JOIN pg_class c ON c.oid = i.indexrelid
+    WHERE c.relname = 'ix_tasks_response_search'
+  `;
+  if (index?.building) {
+    throw new SearchUnavailableError("The search index is still being built");
+  }
+  if (index && !index.valid) {
+    await prisma.$executeRawUnsafe(DROP_SEARCH_INDEX_SQL);
+  }
+  await prisma.$executeRawUnsafe(SEARCH_INDEX_SQL);
+}
+
+/**
+ * Read search filters from query params (?model=, ?category=, ?prompt=).
+ */
+export function parseSearchFilters(params: Pick<URLSearchParams, "get">): SearchFilters {
+  return {
+    model: params.get("model") || null,
+    category: params.get("category") || null,
+    promptId: params.get("prompt") || null,
+  };
+}
+
+/**
+ * Completed tasks whose response matches the query, best match first. Queries
+ * use web search syntax: "quoted phrases", OR, and -excluded words.
+ */
+export async function searchResponses(
+  query: string,
+  filters: SearchFilters,
+  page = 1
+): Promise<SearchResults> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    throw new SearchQueryError("Search query is required");
+  }
+  if (trimmed.length > MAX_QUERY_LENGTH) {
+    throw new SearchQueryError(`Search query must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const conditions = [Prisma.sql`t.status = 'completed'`, Prisma.sql`r.status = 'completed'`];
+  if (filters.model) {
+    conditions.push(Prisma.sql`r.test_model = ${filters.model}`);
+  }
+  if (filters.promptId) {
+    conditions.push(Prisma.sql`t.prompt_id = ${filters.promptId}`);
+  }
+  if (filters.category) {
+    const promptIds = getPromptIdsForCategories([filters.category]);
+    if (promptIds.length === 0) return { query: trimmed, hits: [], page, hasMore: false };
+    conditions.push(Prisma.sql`t.prompt_id IN (${Prisma.join(promptIds)})`);
+  }
+
+  await assertSearchIndex();
+
+  const offset = (page - 1) * SEARCH_PAGE_SIZE;
+  const rows = await prisma.$queryRaw<
+    {
+      id: number;
+      run_key: string;
+      test_model: string;
+      prompt_id: string;
+      iteration_index: number;
+      latest_run: boolean;
+      snippet: string;
+    }[]
+  >`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${trimmed}) AS query),
+    matches AS (
+      SELECT t.id, t.run_key, r.test_model, t.prompt_id, t.iteration_index,
+             t.model_response, t.model_responses,
+             ts_rank(${SEARCH_DOCUMENT}, q.query) AS rank
+      FROM tasks t
+      JOIN runs r ON r.run_key = t.run_key
+      CROSS JOIN q
+      WHERE ${Prisma.join(conditions, " AND ")}
+        AND ${SEARCH_DOCUMENT} @@ q.query
+      ORDER BY rank DESC, t.id DESC
+      LIMIT ${SEARCH_PAGE_SIZE + 1} OFFSET ${offset}
+    )
+    SELECT m.id, m.run_key, m.test_model, m.prompt_id, m.iteration_index,
+           m.run_key = (
+             SELECT lr.run_key FROM runs lr
+             WHERE lr.test_model = m.test_model AND lr.status = 'completed'
+             ORDER BY lr.start_time DESC NULLS LAST
+             LIMIT 1
+           ) AS latest_run,
+           ts_headline(
+             'english',
+             task_search_text(m.model_response, m.model_responses),
+             q.query,
+             ${`StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`}
+           ) AS snippet
+    FROM matches m
+    CROSS JOIN q
+    ORDER BY m.rank DESC, m.id DESC
+  `;
+
+  return {
+    query: trimmed,
+    hits: rows.slice(0, SEARCH_PAGE_SIZE).map((row) => ({
+      taskId: row.id,
+      runKey: row.run_key,
+      model: row.test_model,
+      promptId: row.prompt_id,
+      category: promptsData[row.prompt_id]?.category ?? null,
+      iterationIndex: row.iteration_index,
+      latestRun: row.latest_run,
+      snippet: row.snippet,
+    })),
+    page,
+    hasMore: rows.length > SEARCH_PAGE_SIZE,
+  };
+}
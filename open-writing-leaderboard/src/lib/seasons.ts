@@ -0,0 +1,222 @@
+import { unstable_cache } from "next/cache";
+import { prisma } from "./db";
+import { Prisma } from "@/generated/prisma/client";
+import {
+  getLeaderboardRatings,
+  solveOnPublishedScale,
+  type LeaderboardRating,
+} from "./leaderboard";
+import { toPairwiseComparison } from "./elo-solver";
+import { getPromptIdsForCategories } from "./prompts";
+
+// Seasons are archived editions of the leaderboard: the ratings, every
+// comparison and the completed runs at the time of archiving. They live in the
+// settings table; comparisons get their own row so listing seasons stays cheap.
+
+const SEASON_KEY_PREFIX = "season:";
+const COMPARISONS_KEY_PREFIX = "season_comparisons:";
+
+export interface SeasonRun {
+  run_key: string;
+  model_name: string;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface SeasonSummary {
+  slug: string;
+  name: string;
+  archivedAt: string;
+  models: number;
+  comparisons: number;
+}
+
+export interface Season extends SeasonSummary {
+  ratings: LeaderboardRating[];
+  runs: SeasonRun[];
+}
+
+// item_id, model_a, model_b, fraction_for_a
+type ArchivedComparison = [string, string, string, number];
+
+export class SeasonError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * URL slug for a season name, e.g. "Beta 2025" → "beta-2025".
+ */
+export function seasonSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * The run each model was rated on when the season was archived (its latest
+ * completed run at the time), keyed by model name.
+ */
+export function seasonRunKeys({ runs }: Season): Record<string, string> {
+  // Runs are archived oldest first, so each model ends on its latest
+  return Object.fromEntries(runs.map((run) => [run.model_name, run.run_key]));
+}
+
+export function seasonSummary({ slug, name, archivedAt, models, comparisons }: Season): SeasonSummary {
+  return { slug, name, archivedAt, models, comparisons };
+}
+
+/**
+ * Archive the current leaderboard under a new season name.
+ */
+export async function archiveSeason(name: string): Promise<SeasonSummary> {
+  const trimmed = name.trim();
+  const slug = seasonSlug(trimmed);
+  if (!slug) {
+    throw new SeasonError("Season name must contain letters or digits");
+  }
+
+  const key = `${SEASON_KEY_PREFIX}${slug}`;
+  const conflict = new SeasonError(`A season named "${slug}" already exists`, 409);
+  const existing = await prisma.settings.findUnique({ where: { key }, select: { key: true } });
+  if (existing) {
+    throw conflict;
+  }
+
+  const [ratings, comparisonRows, runs] = await Promise.all([
+    getLeaderboardRatings(),
+    prisma.elo_comparisons.findMany({
+      select: {
+        item_id: true,
+        model_a: true,
+        model_b: true,
+        fraction_for_a: true,
+        aggregated_plus_for_a: true,
+        aggregated_plus_for_b: true,
+      },
+    }),
+    prisma.runs.findMany({
+      where: { status: "completed" },
+      orderBy: { start_time: "asc" },
+      select: { run_key: true, test_model: true, start_time: true, end_time: true },
+    }),
+  ]);
+
+  const comparisons: ArchivedComparison[] = [];
+  for (const row of comparisonRows) {
+    const comparison = toPairwiseComparison(row);
+    if (comparison) {
+      comparisons.push([row.item_id, comparison.modelA, comparison.modelB, comparison.fractionForA]);
+    }
+  }
+
+  const season: Season = {
+    slug,
+    name: trimmed,
+    archivedAt: new Date().toISOString(),
+    models: ratings.length,
+    comparisons: comparisons.length,
+    ratings,
+    runs: runs.map((r) => ({
+      run_key: r.run_key,
+      model_name: r.test_model,
+      start_time: r.start_time?.toISOString() ?? null,
+      end_time: r.end_time?.toISOString() ?? null,
+    })),
+  };
+
+  try {
+    await prisma.$transaction([
+      prisma.settings.create({
+        data: { key, value: season as unknown as Prisma.InputJsonValue },
+      }),
+      prisma.settings.create({
+        data: {
+          key: `${COMPARISONS_KEY_PREFIX}${slug}`,
+          value: comparisons as unknown as Prisma.InputJsonValue,
+        },
+      }),
+    ]);
+  } catch (error) {
+    // Another archive with the same name got there first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw conflict;
+    }
+    throw error;
+  }
+
+  return seasonSummary(season);
+}
+
+/**
+ * Archived seasons, newest first. Only the summary fields are read, so the
+ * archived ratings and runs stay in the database.
+ */
+export async function listSeasons(): Promise<SeasonSummary[]> {
+  const rows = await prisma.$queryRaw<
+    { slug: string; name: string; archived_at: string; models: number; comparisons: number }[]
+  >`
+    SELECT value->>'slug' AS slug,
+           value->>'name' AS name,
+           value->>'archivedAt' AS archived_at,
+           (value->>'models')::int AS models,
+           (value->>'comparisons')::int AS comparisons
+    FROM settings
+    WHERE key LIKE ${`${SEASON_KEY_PREFIX}%`}
+    ORDER BY value->>'archivedAt' DESC
+  `;
+  return rows.map((row) => ({
+    slug: row.slug,
+    name: row.name,
+    archivedAt: row.archived_at,
+    models: row.models,
+    comparisons: row.comparisons,
+  }));
+}
+
+export async function getSeason(slug: string): Promise<Season | null> {
+  const row = await prisma.settings.findUnique({
+    where: { key: `${SEASON_KEY_PREFIX}${slug}` },
+  });
+  return row ? (row.value as unknown as Season) : null;
+}
+
+async function solveSeasonCategoryRatings(slug: string, categories: string[]): Promise<LeaderboardRating[]> {
+  const promptIds = new Set(getPromptIdsForCategories(categories));
+  if (promptIds.size === 0) return [];
+
+  const [season, row] = await Promise.all([
+    getSeason(slug),
+    prisma.settings.findUnique({ where: { key: `${COMPARISONS_KEY_PREFIX}${slug}` } }),
+  ]);
+  if (!season) return [];
+  const archived = (row?.value ?? []) as unknown as ArchivedComparison[];
+  const rated = new Set(season.ratings.map((r) => r.model_name));
+
+  const comparisons = archived
+    .filter(([itemId, modelA, modelB]) => promptIds.has(itemId) && rated.has(modelA) && rated.has(modelB))
+    .map(([, modelA, modelB, fractionForA]) => ({ modelA, modelB, fractionForA }));
+
+  return solveOnPublishedScale(comparisons, season.ratings).map((r) => ({
+    model_name: r.model_name,
+    elo: r.elo,
+    elo_norm: null,
+    ci_low: r.ci_low,
+    ci_high: r.ci_high,
+  }));
+}
+
+// Archived seasons never change, so their category boards are cached by slug
+const cachedSeasonCategoryRatings = unstable_cache(solveSeasonCategoryRatings, [
+  "season-category-ratings",
+]);
+
+/**
+ * A season's board re-solved from its archived comparisons on the given
+ * prompt categories, like getCategoryLeaderboardRatings for the live board.
+ */
+export async function getSeasonCategoryRatings(
+  season: Season,
+  categories: string[]
+): Promise<LeaderboardRating[]> {
+  return cachedSeasonCategoryRatings(season.slug, [...new Set(categories)].sort());
+}
@@ -0,0 +1,137 @@
+import slopWords from "@/data/slop-words.json";
+import slopTrigrams from "@/data/slop-trigrams.json";
+
+// Finds the constructions behind the lexical analysis slop metrics in one
+// text: overused words, overused three-word phrases and "not X but Y"
+// contrasts. The lists approximate the benchmark pipeline's, so counts can
+// differ slightly from a run's lexical_analysis. Client-safe.
+
+export type SlopKind = "notXButY" | "trigram" | "word";
+
+export const SLOP_KIND_LABELS: Record<SlopKind, string> = {
+  notXButY: "Not X but Y",
+  trigram: "Slop trigrams",
+  word: "Slop words",
+};
+
+export interface SlopMatch {
+  kind: SlopKind;
+  start: number;
+  end: number;
+}
+
+export interface SlopSegment {
+  text: string;
+  kind: SlopKind | null;
+}
+
+export interface SlopSummary {
+  counts: Record<SlopKind, number>;
+  // Same units as the lexical analysis: per 1k words, and per 1k characters
+  // for "not X but Y"
+  wordsPer1k: number;
+  trigramsPer1k: number;
+  notXButYPer1kChars: number;
+}
+
+const SLOP_WORDS = new Set(slopWords);
+const SLOP_TRIGRAMS = new Set(slopTrigrams);
+
+// Y is capped at a few words so a highlight doesn't run on to the end of
+// the sentence
+const Y_PHRASE = String.raw`[^\s.!?;,—–]+(?:\s+[^\s.!?;,—–]+){0,3}`;
+const SUBJECT_VERB = String.raw`(?:it|this|that|he|she|they)(?:'s|’s|\s+is|\s+was|\s+are|\s+were)`;
+
+// "not X but Y", and "it's not X. It's Y" split across two clauses
+const NOT_X_BUT_Y_PATTERNS = [
+  new RegExp(String.raw`\bnot\s+(?:just\s+|only\s+|merely\s+|simply\s+)?[^.!?;\n]{1,60}?,?\s+but\s+(?:rather\s+)?${Y_PHRASE}`, "gi"),
+  new RegExp(String.raw`\b${SUBJECT_VERB}\s+not\s+[^.!?\n]{1,60}?[.;,—–]\s*${SUBJECT_VERB}\s+${Y_PHRASE}`, "gi"),
+];
+
+// Overlapping matches keep the most specific kind
+const KIND_PRIORITY: SlopKind[] = ["notXButY", "trigram", "word"];
+
+function tokenize(text: string) {
+  return [...text.matchAll(/[\p{L}]+(?:['’][\p{L}]+)*/gu)].map((m) => ({
+    word: m[0].toLowerCase().replace(/’/g, "'"),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+// Trigrams are matched as three tokens normalised as above, so an entry of any
+// other length or form could never match. Checked when the module loads, so a
+// bad entry fails the build rather than being silently ignored
+for (const trigram of slopTrigrams) {
+  const words = tokenize(trigram).map((t) => t.word);
+  if (words.length !== 3 || words.join(" ") !== trigram) {
+    throw new Error(`Slop trigram "${trigram}" must be exactly three lowercase words`);
+  }
+}
+
+/**
+ * Every slop match in the text, in order of position. Matches of different
+ * kinds may overlap.
+ */
+export function detectSlop(text: string): SlopMatch[] {
+  const tokens = tokenize(text);
+  const matches: SlopMatch[] = [];
+
+  tokens.forEach((token, i) => {
+    if (SLOP_WORDS.has(token.word)) {
+      matches.push({ kind: "word", start: token.start, end: token.end });
+    }
+    if (i + 2 < tokens.length) {
+      const trigram = `${token.word} ${tokens[i + 1].word} ${tokens[i + 2].word}`;
+      if (SLOP_TRIGRAMS.has(trigram)) {
+        matches.push({ kind: "trigram", start: token.start, end: tokens[i + 2].end });
+      }
+    }
+  });
+
+  for (const pattern of NOT_X_BUT_Y_PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      matches.push({ kind: "notXButY", start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+export function summarizeSlop(text: string, matches: SlopMatch[]): SlopSummary {
+  const counts: Record<SlopKind, number> = { notXButY: 0, trigram: 0, word: 0 };
+  for (const match of matches) counts[match.kind]++;
+  const words = tokenize(text).length;
+  const perThousand = (count: number, total: number) => (total > 0 ? (count / total) * 1000 : 0);
+
+  return {
+    counts,
+    wordsPer1k: perThousand(counts.word, words),
+    trigramsPer1k: perThousand(counts.trigram, words),
+    notXButYPer1kChars: perThousand(counts.notXButY, text.length),
+  };
+}
+
+/**
+ * Split text into plain and highlighted runs. Where matches overlap, the
+ * higher-priority kind wins and the other is clipped around it.
+ */
+export function slopSegments(text: string, matches: SlopMatch[]): SlopSegment[] {
+  const kindAt: (SlopKind | null)[] = new Array(text.length).fill(null);
+  for (const kind of [...KIND_PRIORITY].reverse()) {
+    for (const match of matches) {
+      if (match.kind !== kind) continue;
+      kindAt.fill(kind, match.start, match.end);
+    }
+  }
+
+  const segments: SlopSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || kindAt[i] !== kindAt[start]) {
+      segments.push({ text: text.slice(start, i), kind: kindAt[start] });
+      start = i;
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,134 @@
+import type { LexicalAnalysis } from "./lexical-analysis";
+import { detectSlop, summarizeSlop } from "./slop-detector";
+
+// The lexical analysis metrics for a single text, so individual samples and
+// chapters can be compared with a run's aggregate. Vocabulary level and slop
+// score approximate the benchmark pipeline's formulas. Client-safe.
+
+const MATTR_WINDOW = 500;
+
+// Weight of each slop rate (per 1k words) in the slop score
+const SLOP_SCORE_WEIGHTS = { words: 0.6, trigrams: 0.25, notXButY: 0.15 };
+
+export type TextMetrics = Pick<
+  LexicalAnalysis,
+  | "slop_words_per_1k"
+  | "slop_trigrams_per_1k"
+  | "not_x_but_y_per_1k_chars"
+  | "slop_score"
+  | "vocab_level"
+  | "avg_sentence_length"
+  | "avg_paragraph_length"
+  | "mattr_500"
+  | "total_words"
+  | "total_chars"
+>;
+
+export interface ChapterMetrics {
+  label: string;
+  metrics: TextMetrics;
+}
+
+export interface SampleMetrics {
+  // Across every chapter (or the single response)
+  overall: TextMetrics;
+  // Empty for single-turn responses
+  chapters: ChapterMetrics[];
+}
+
+interface MetricsSource {
+  model_response: string | null;
+  model_responses: unknown;
+}
+
+interface Turn {
+  turn_type?: string;
+  turn_index?: number;
+  chapter_number?: number | null;
+  assistant_response?: string | null;
+}
+
+function words(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu) ?? [];
+}
+
+/**
+ * Moving average type-token ratio: the mean share of distinct words in every
+ * window of `window` words. Shorter texts fall back to the plain ratio.
+ */
+export function mattr(tokens: string[], window = MATTR_WINDOW): number {
+  if (tokens.length === 0) return 0;
+  const lower = tokens.map((t) => t.toLowerCase());
+  if (lower.length <= window) return new Set(lower).size / lower.length;
+
+  const counts = new Map<string, number>();
+  for (const word of lower.slice(0, window)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  let total = counts.size;
+  for (let i = window; i < lower.length; i++) {
+    const removed = lower[i - window];
+    const left = counts.get(removed)! - 1;
+    if (left === 0) counts.delete(removed);
+    else counts.set(removed, left);
+    counts.set(lower[i], (counts.get(lower[i]) ?? 0) + 1);
+    total += counts.size;
+  }
+  return total / (lower.length - window + 1) / window;
+}
+
+function syllables(word: string): number {
+  const groups = word.toLowerCase().replace(/e$/, "").match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+/**
+ * Lexical metrics for one text, in the units of runs.results.lexical_analysis.
+ */
+export function computeTextMetrics(text: string): TextMetrics {
+  const tokens = words(text);
+  const sentences = text.split(/[.!?…]+["'”’)\]]*\s+/).filter((s) => words(s).length > 0);
+  const paragraphs = text.split(/\n\s*\n/).filter((p) => words(p).length > 0);
+  const slop = summarizeSlop(text, detectSlop(text));
+
+  const avgSentence = sentences.length > 0 ? tokens.length / sentences.length : 0;
+  const syllablesPerWord =
+    tokens.length > 0 ? tokens.reduce((sum, w) => sum + syllables(w), 0) / tokens.length : 0;
+
+  return {
+    slop_words_per_1k: slop.wordsPer1k,
+    slop_trigrams_per_1k: slop.trigramsPer1k,
+    not_x_but_y_per_1k_chars: slop.notXButYPer1kChars,
+    slop_score:
+      SLOP_SCORE_WEIGHTS.words * slop.wordsPer1k +
+      SLOP_SCORE_WEIGHTS.trigrams * slop.trigramsPer1k +
+      SLOP_SCORE_WEIGHTS.notXButY * (tokens.length > 0 ? (slop.counts.notXButY / tokens.length) * 1000 : 0),
+    // Flesch-Kincaid grade level
+    vocab_level: tokens.length > 0 ? 0.39 * avgSentence + 11.8 * syllablesPerWord - 15.59 : 0,
+    avg_sentence_length: avgSentence,
+    avg_paragraph_length: paragraphs.length > 0 ? tokens.length / paragraphs.length : 0,
+    mattr_500: mattr(tokens),
+    total_words: tokens.length,
+    total_chars: text.length,
+  };
+}
+
+/**
+ * Metrics for a task's response overall and per chapter. Planning turns are
+ * left out, as in the run-level analysis of the story text.
+ */
+export function computeSampleMetrics(source: MetricsSource): SampleMetrics {
+  const turns = Array.isArray(source.model_responses) ? (source.model_responses as Turn[]) : [];
+  const chapterTurns = turns.filter((t) => t.turn_type !== "planning");
+
+  if (chapterTurns.length === 0) {
+    return { overall: computeTextMetrics(source.model_response ?? ""), chapters: [] };
+  }
+
+  const chapters = chapterTurns.map((turn) => ({
+    label: `Chapter ${turn.chapter_number ?? turn.turn_index}`,
+    metrics: computeTextMetrics(turn.assistant_response ?? ""),
+  }));
+  const overall = computeTextMetrics(
+    chapterTurns.map((t) => t.assistant_response ?? "").join("\n\n")
+  );
+  return { overall, chapters };
+}
@@ -0,0 +1,65 @@
+import { getLeaderboardRatings, loadPairwiseComparisons } from "./leaderboard";
+
+export interface MatrixModel {
+  model_name: string;
+  elo: number | null;
+}
+
+export interface WinRateMatrix {
+  // Sorted by Elo, highest first; unrated models last
+  models: MatrixModel[];
+  // winRates[i][j]: mean share of judge credit for models[i] against models[j],
+  // null when the pair was never compared
+  winRates: (number | null)[][];
+  counts: number[][];
+}
+
+/**
+ * Aggregate every elo_comparisons row into an N×N matrix of pairwise win
+ * rates and comparison counts. Rows are read as the Elo solver reads them
+ * (plus counts where fraction_for_a is missing), so the matrix counts the
+ * same comparisons as the ratings beside it.
+ */
+export async function getWinRateMatrix(): Promise<WinRateMatrix> {
+  const [comparisons, ratings] = await Promise.all([
+    loadPairwiseComparisons(),
+    getLeaderboardRatings(),
+  ]);
+
+  const eloByModel = new Map(ratings.map((r) => [r.model_name, r.elo]));
+  const names = new Set<string>(ratings.map((r) => r.model_name));
+  for (const c of comparisons) {
+    names.add(c.modelA);
+    names.add(c.modelB);
+  }
+
+  const models: MatrixModel[] = [...names]
+    .map((model_name) => ({ model_name, elo: eloByModel.get(model_name) ?? null }))
+    .sort((a, b) => {
+      if (a.elo === null && b.elo === null) return a.model_name.localeCompare(b.model_name);
+      if (a.elo === null) return 1;
+      if (b.elo === null) return -1;
+      return b.elo - a.elo;
+    });
+
+  const index = new Map(models.map((m, i) => [m.model_name, i]));
+  const n = models.length;
+  const creditSums = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const counts = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  // Each comparison contributes to both orientations
+  for (const c of comparisons) {
+    const i = index.get(c.modelA)!;
+    const j = index.get(c.modelB)!;
+    creditSums[i][j] += c.fractionForA;
+    creditSums[j][i] += 1 - c.fractionForA;
+    counts[i][j] += 1;
+    counts[j][i] += 1;
+  }
+
+  const winRates = counts.map((row, i) =>
+    row.map((count, j) => (count > 0 ? creditSums[i][j] / count : null))
+  );
+
+  return { models, winRates, counts };
+}